@@ -40,14 +40,19 @@ const App: React.FC = () => {
   const { sdk: identitySDK, loading, error } = useIdentitySDK("development")
 
   useEffect(() => {
-    const urlParams = new URLSearchParams(location.search)
-    const verified = urlParams.get("verified")
+    if (!identitySDK) return
 
-    if (verified === "true") {
-      setIsVerified(true)
-      window.history.replaceState({}, document.title, window.location.pathname)
-    }
-  }, [location.search])
+    identitySDK
+      .handleFVCallback()
+      .then(({ isCallback, verified }) => {
+        if (isCallback && verified) {
+          setIsVerified(true)
+        }
+      })
+      .catch((error) => {
+        console.error("Error handling verification callback:", error)
+      })
+  }, [identitySDK, location.search])
 
   //ref: https://github.com/wevm/wagmi/discussions/1806#discussioncomment-12130996
   // does not react to switch account when triggered from metamask.
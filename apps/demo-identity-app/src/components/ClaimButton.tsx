@@ -6,14 +6,26 @@ import {
   CHAIN_DECIMALS,
   isSupportedChain,
   SupportedChains,
+  type ClaimStep,
 } from "@goodsdks/citizen-sdk"
 import { formatUnits } from "viem"
 import { useAccount } from "wagmi"
 
+const CLAIM_STEP_LABELS: Record<ClaimStep, string> = {
+  switching_chain: "Switching network...",
+  whitelist: "Checking identity...",
+  entitlement: "Checking entitlement...",
+  faucet: "Checking gas balance...",
+  simulating: "Confirm in your wallet...",
+  submitted: "Waiting for confirmation...",
+  confirmed: "Claimed!",
+}
+
 export const ClaimButton: React.FC = () => {
   const { address, chainId } = useAccount()
   const [isLoading, setIsLoading] = useState(false)
   const [isClaiming, setIsClaiming] = useState(false)
+  const [claimStep, setClaimStep] = useState<ClaimStep | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [txHash, setTxHash] = useState<string | null>(null)
   const { sdk: claimSDK, loading, error: sdkError } = useClaimSDK("development")
@@ -85,7 +97,12 @@ export const ClaimButton: React.FC = () => {
         console.log("tx start")
       }
 
-      const tx = await sdk.claim(callBackExample)
+      const tx = await sdk.claim(callBackExample, {
+        onStep: ({ step, hash }) => {
+          setClaimStep(step)
+          if (hash) setTxHash(hash)
+        },
+      })
       if (!tx) return
 
       setTxHash(tx.transactionHash)
@@ -94,6 +111,7 @@ export const ClaimButton: React.FC = () => {
       setError(err.message || "An unexpected error occurred.")
     } finally {
       setIsClaiming(false)
+      setClaimStep(null)
       setClaimAmount(null)
     }
   }, [sdk, claimAmount, chainId])
@@ -120,7 +138,9 @@ export const ClaimButton: React.FC = () => {
           {isLoading
             ? "Loading..."
             : isClaiming
-              ? "Claiming..."
+              ? claimStep
+                ? CLAIM_STEP_LABELS[claimStep]
+                : "Claiming..."
               : claimAmount !== 0
                 ? `Claim UBI ${claimAmount}`
                 : altClaimAvailable && altChainId
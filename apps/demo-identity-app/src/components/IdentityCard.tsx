@@ -15,26 +15,21 @@ export const IdentityCard: React.FC = () => {
       if (!identitySDK || !address) return
 
       try {
-        const { isWhitelisted: whitelisted, root } =
-          await identitySDK.getWhitelistedRoot(address)
+        const identityStatus = await identitySDK.getIdentityStatus(address)
+        const whitelisted =
+          identityStatus.status === "active" ||
+          identityStatus.status === "expiring_soon"
 
         setIsWhitelisted(whitelisted)
-        setRootAddress(root)
+        setRootAddress(identityStatus.root)
 
-        if (whitelisted) {
-          const identityExpiry = await identitySDK.getIdentityExpiryData(root as `0x${string}`)
-
-          const { expiryTimestamp } = identitySDK.calculateIdentityExpiry(
-            identityExpiry?.lastAuthenticated ?? BigInt(0),
-            identityExpiry?.authPeriod ?? BigInt(0),
-          )
-
-          const date = new Date(Number(expiryTimestamp))
-          const formattedExpiryTimestamp = date.toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "long",
-            day: "2-digit",
-          })
+        if (identityStatus.status !== "unverified" && identityStatus.expiryDate) {
+          const formattedExpiryTimestamp =
+            identityStatus.expiryDate.toLocaleDateString("en-US", {
+              year: "numeric",
+              month: "long",
+              day: "2-digit",
+            })
 
           setExpiry(formattedExpiryTimestamp)
         } else {
@@ -1,10 +1,26 @@
-import { parseAbi } from "viem"
+import { defineChain, isAddress, parseAbi, type Chain } from "viem"
+import { celo, fuse, xdc } from "viem/chains"
+
+import {
+  GoodSDKError,
+  MissingConfigurationError,
+  UnsupportedChainError,
+} from "./errors"
 
 export const FV_IDENTIFIER_MSG2 = `Sign this message to request verifying your account <account> and to create your own secret unique identifier for your anonymized record.
 You can use this identifier in the future to delete this anonymized record.
 WARNING: do not sign this message unless you trust the website/application requesting this signature.`
 
-export type contractEnv = "production" | "staging" | "development"
+/** Built-in envs, plus any name added with {@link registerEnv}. */
+export type contractEnv =
+  "production" | "staging" | "development" | (string & {})
+
+export interface EnvConfig {
+  dappUrl?: string
+  identityUrl?: string
+  backend?: string
+  goodCollectiveUrl?: string
+}
 
 export const Envs: Record<string, Record<string, string>> = {
   production: {
@@ -32,6 +48,8 @@ export interface ContractAddresses {
   ubiContract: `0x${string}`
   faucetContract: `0x${string}`
   g$Contract: `0x${string}`
+  /** Block the identity contract was deployed at; the first block scanned for its events. */
+  identityDeploymentBlock?: bigint
 }
 
 export enum SupportedChains {
@@ -40,13 +58,18 @@ export enum SupportedChains {
   "XDC" = 50,
 }
 
+/** Per-instance contract address overrides, merged over the registry for each chain. */
+export type ContractOverrides = Partial<
+  Record<SupportedChains, Partial<ContractAddresses>>
+>
+
 export type SupportedChainId = `${SupportedChains}` extends infer _
   ? SupportedChains
   : SupportedChains
 
 export interface ChainConfig {
   id: SupportedChains
-  key: keyof typeof SupportedChains
+  key: keyof typeof SupportedChains | (string & {})
   label: string
   shortName: string
   explorer: {
@@ -54,9 +77,12 @@ export interface ChainConfig {
     tx: (hash: string) => string
   }
   rpcUrls: string[]
+  multicallAddress?: `0x${string}`
   defaultGasPrice?: bigint
   claimGasBuffer: bigint
   fvDefaultChain?: SupportedChains
+  /** Defaults to the viem chain definition, or 18-decimal ETH for registered chains. */
+  nativeCurrency?: Chain["nativeCurrency"]
   contracts: Partial<Record<contractEnv, ContractAddresses>>
 }
 
@@ -85,6 +111,7 @@ export const chainConfigs: Record<SupportedChains, ChainConfig> = {
     shortName: "Fuse",
     explorer: makeExplorer("https://explorer.fuse.io"),
     rpcUrls: ["https://rpc.fuse.io", "https://fuse-rpc.gateway.pokt.network"],
+    multicallAddress: "0xcA11bde05977b3631167028862bE2a173976CA11",
     defaultGasPrice: BigInt(11e9),
     claimGasBuffer: 150000n,
     fvDefaultChain: SupportedChains.CELO,
@@ -116,6 +143,7 @@ export const chainConfigs: Record<SupportedChains, ChainConfig> = {
     shortName: "Celo",
     explorer: makeExplorer("https://celoscan.io"),
     rpcUrls: ["https://forno.celo.org", "https://rpc.ankr.com/celo"],
+    multicallAddress: "0xcA11bde05977b3631167028862bE2a173976CA11",
     defaultGasPrice: BigInt(25.001e9),
     claimGasBuffer: 250000n,
     fvDefaultChain: SupportedChains.CELO,
@@ -148,6 +176,7 @@ export const chainConfigs: Record<SupportedChains, ChainConfig> = {
     explorer: makeExplorer("https://xdcscan.com"),
     // rpcUrls: ["https://rpc.xdc.network", "https://rpc.ankr.com/xdc"],
     rpcUrls: ["https://rpc.ankr.com/xdc"],
+    multicallAddress: "0x0B1795ccA8E4eC4df02346a082df54D437F8D9aF",
     defaultGasPrice: BigInt(12.5e9),
     claimGasBuffer: 150000n,
     fvDefaultChain: SupportedChains.XDC,
@@ -175,10 +204,17 @@ export const isSupportedChain = (
 ): chainId is SupportedChains =>
   typeof chainId === "number" && chainIdSet.has(chainId as SupportedChains)
 
+/**
+ * Cycles through the chain's configured RPC URLs.
+ * @throws GoodSDKError with code `INVALID_ARGUMENT` when the chain has no RPC URLs.
+ */
 export const createRpcUrlIterator = (chainId: SupportedChains) => {
   const urls = [...(chainConfigs[chainId]?.rpcUrls ?? [])]
   if (!urls.length) {
-    throw new Error(`No RPC URLs configured for chain ${chainId}`)
+    throw new GoodSDKError(
+      "INVALID_ARGUMENT",
+      `No RPC URLs configured for chain ${chainId}`,
+    )
   }
 
   let index = 0
@@ -189,12 +225,183 @@ export const createRpcUrlIterator = (chainId: SupportedChains) => {
   }
 }
 
+const VIEM_CHAINS: Partial<Record<SupportedChains, Chain>> = {
+  [SupportedChains.CELO]: celo,
+  [SupportedChains.FUSE]: fuse,
+  [SupportedChains.XDC]: xdc,
+}
+
+/**
+ * Returns the viem chain definition for a supported or registered chain, using
+ * the RPC URLs from `chainConfigs` so wallets that add the chain get the SDK endpoints.
+ */
+export const getViemChain = (chainId: SupportedChains): Chain => {
+  const config = chainConfigs[chainId]
+  if (!config) {
+    throw new UnsupportedChainError(chainId)
+  }
+
+  const chain =
+    VIEM_CHAINS[chainId] ??
+    defineChain({
+      id: chainId,
+      name: config.label,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: config.rpcUrls } },
+    })
+
+  return {
+    ...chain,
+    nativeCurrency: config.nativeCurrency ?? chain.nativeCurrency,
+    rpcUrls: config.rpcUrls.length
+      ? { default: { http: config.rpcUrls } }
+      : chain.rpcUrls,
+  }
+}
+
+const REQUIRED_CONTRACTS: readonly Exclude<
+  keyof ContractAddresses,
+  "identityDeploymentBlock"
+>[] = [
+  "identityContract",
+  "ubiContract",
+  "faucetContract",
+  "g$Contract",
+]
+
+/**
+ * Checks that every required contract address is present and well formed.
+ * @param contracts - The addresses to check.
+ * @param context - Describes the addresses in the error message, e.g. `chain 31337 (local)`.
+ * @returns The addresses, typed as complete.
+ * @throws MissingConfigurationError naming each missing or invalid address.
+ */
+export const validateContractAddresses = (
+  contracts: Partial<ContractAddresses> | undefined,
+  context: string,
+): ContractAddresses => {
+  const invalid = REQUIRED_CONTRACTS.filter((name) => {
+    const address = contracts?.[name]
+    return !address || !isAddress(address)
+  })
+
+  if (invalid.length) {
+    throw new MissingConfigurationError(
+      `Missing or invalid contract addresses for ${context}: ${invalid.join(", ")}.`,
+    )
+  }
+
+  return contracts as ContractAddresses
+}
+
+export interface RegisterChainConfig extends Omit<
+  ChainConfig,
+  "id" | "key" | "explorer"
+> {
+  id: number
+  key?: string
+  /** Explorer base URL, or explicit link builders. Defaults to the first registered explorer or none. */
+  explorer?: string | ChainConfig["explorer"]
+  /** G$ decimals on this chain. Defaults to 18. */
+  decimals?: number
+}
+
+/**
+ * Adds a chain, or replaces a built-in one, at runtime. Registered chains are
+ * accepted by `isSupportedChain`, `createRpcUrlIterator`, the SDK constructors
+ * and the claim-button, e.g. to point the SDK at a local Anvil fork.
+ * @param config - Chain settings and contract addresses per env.
+ * @returns The stored chain config.
+ * @throws GoodSDKError with code `INVALID_ARGUMENT` for a bad id or no RPC URLs, or MissingConfigurationError for incomplete contract addresses.
+ */
+export const registerChain = ({
+  id,
+  key,
+  explorer,
+  decimals,
+  ...config
+}: RegisterChainConfig): ChainConfig => {
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new GoodSDKError("INVALID_ARGUMENT", `Invalid chain id: ${id}`)
+  }
+  if (!config.rpcUrls.length) {
+    throw new GoodSDKError(
+      "INVALID_ARGUMENT",
+      `Chain ${id} needs at least one RPC URL.`,
+    )
+  }
+
+  Object.entries(config.contracts).forEach(([env, contracts]) =>
+    validateContractAddresses(contracts, `chain ${id} (${env})`),
+  )
+
+  const chainId = id as SupportedChains
+  const existing = chainConfigs[chainId] as ChainConfig | undefined
+  const chainConfig: ChainConfig = {
+    ...config,
+    // A fresh array tells shared RPC pools that the URLs changed.
+    rpcUrls: [...config.rpcUrls],
+    id: chainId,
+    key: key ?? existing?.key ?? config.shortName,
+    explorer:
+      typeof explorer === "string"
+        ? makeExplorer(explorer)
+        : (explorer ?? existing?.explorer ?? makeExplorer("")),
+  }
+
+  chainConfigs[chainId] = chainConfig
+  CHAIN_DECIMALS[chainId] = decimals ?? CHAIN_DECIMALS[chainId] ?? 18
+  if (!chainIdSet.has(chainId)) {
+    chainIdSet.add(chainId)
+    chainIds.push(chainId)
+  }
+
+  return chainConfig
+}
+
+/**
+ * Adds an env, or extends an existing one, with service URLs and contract
+ * addresses on already registered chains. The env name can then be passed as
+ * `env` to the SDKs.
+ * @param env - Env name, e.g. `"local"`.
+ * @param config - Service URLs; merged over any existing entry.
+ * @param contracts - Contract addresses per chain for this env.
+ * @throws UnsupportedChainError for unknown chains, or MissingConfigurationError for incomplete contract addresses.
+ */
+export const registerEnv = (
+  env: string,
+  config: EnvConfig,
+  contracts: Partial<Record<SupportedChains, ContractAddresses>> = {},
+): void => {
+  const entries = Object.entries(contracts).map(([id, addresses]) => {
+    const chainId = Number(id)
+    if (!isSupportedChain(chainId)) {
+      throw new UnsupportedChainError(chainId)
+    }
+    return [
+      chainId,
+      validateContractAddresses(addresses, `chain ${chainId} (${env})`),
+    ] as const
+  })
+
+  Envs[env] = { ...Envs[env], ...(config as Record<string, string>) }
+  entries.forEach(([chainId, addresses]) => {
+    chainConfigs[chainId].contracts[env] = addresses
+  })
+}
+
 export const identityV2ABI = parseAbi([
   "function addWhitelisted(address account)",
   "function removeWhitelisted(address account)",
   "function getWhitelistedRoot(address account) view returns (address)",
   "function lastAuthenticated(address account) view returns (uint256)",
   "function authenticationPeriod() view returns (uint256)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function connectAccount(address account)",
+  "function disconnectAccount(address connected)",
+  "function connectedAccounts(address account) view returns (address)",
+  "event AccountConnected(address indexed connected, address indexed to)",
+  "event AccountDisconnected(address indexed disconnected, address indexed from)",
 ])
 
 // ABI for the UBISchemeV2 contract for essential functions and events
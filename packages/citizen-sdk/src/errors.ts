@@ -0,0 +1,321 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  TimeoutError,
+  UserRejectedRequestError,
+} from "viem"
+
+/**
+ * Stable error codes. Safe to use as localisation and analytics keys;
+ * messages may change between releases, codes do not.
+ */
+export type GoodSDKErrorCode =
+  | "NOT_WHITELISTED"
+  | "ALREADY_CLAIMED"
+  | "FAUCET_FAILED"
+  | "UNSUPPORTED_CHAIN"
+  | "MISSING_CONFIGURATION"
+  | "RPC_UNAVAILABLE"
+  | "USER_REJECTED"
+  | "SIMULATION_REVERTED"
+  | "CONTRACT_READ_REVERTED"
+  | "INSUFFICIENT_FUNDS"
+  | "NONCE_ERROR"
+  | "TRANSACTION_FAILED"
+  | "MISSING_ACCOUNT"
+  | "ACCOUNT_ALREADY_CONNECTED"
+  | "ACCOUNT_NOT_CONNECTED"
+  | "READ_ONLY"
+  | "INVALID_ARGUMENT"
+  | "UNSUPPORTED_ENVIRONMENT"
+  | "UNAUTHORIZED"
+  | "SERVER_ERROR"
+  | "UNKNOWN"
+
+export interface GoodSDKErrorOptions {
+  /** The underlying error, e.g. the original viem error. */
+  cause?: unknown
+}
+
+/**
+ * Base class of every error thrown by the SDKs.
+ */
+export class GoodSDKError extends Error {
+  readonly code: GoodSDKErrorCode
+
+  constructor(
+    code: GoodSDKErrorCode,
+    message: string,
+    options: GoodSDKErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause })
+    this.name = "GoodSDKError"
+    this.code = code
+  }
+}
+
+export class NotWhitelistedError extends GoodSDKError {
+  constructor(
+    message: string = "User requires identity verification.",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("NOT_WHITELISTED", message, options)
+    this.name = "NotWhitelistedError"
+  }
+}
+
+export class AlreadyClaimedError extends GoodSDKError {
+  constructor(
+    message: string = "No UBI available to claim for this period.",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("ALREADY_CLAIMED", message, options)
+    this.name = "AlreadyClaimedError"
+  }
+}
+
+export class FaucetError extends GoodSDKError {
+  constructor(
+    message: string = "Faucet request failed",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("FAUCET_FAILED", message, options)
+    this.name = "FaucetError"
+  }
+}
+
+export class UnsupportedChainError extends GoodSDKError {
+  readonly chainId?: number
+
+  constructor(chainId?: number, options?: GoodSDKErrorOptions) {
+    super(
+      "UNSUPPORTED_CHAIN",
+      chainId === undefined
+        ? "Unsupported chain ID."
+        : `Unsupported chain ID: ${chainId}.`,
+      options,
+    )
+    this.name = "UnsupportedChainError"
+    this.chainId = chainId
+  }
+}
+
+export class MissingConfigurationError extends GoodSDKError {
+  constructor(message: string, options?: GoodSDKErrorOptions) {
+    super("MISSING_CONFIGURATION", message, options)
+    this.name = "MissingConfigurationError"
+  }
+}
+
+export class RpcUnavailableError extends GoodSDKError {
+  constructor(message: string, options?: GoodSDKErrorOptions) {
+    super("RPC_UNAVAILABLE", message, options)
+    this.name = "RpcUnavailableError"
+  }
+}
+
+export class UserRejectedError extends GoodSDKError {
+  constructor(
+    message: string = "User rejected the request.",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("USER_REJECTED", message, options)
+    this.name = "UserRejectedError"
+  }
+}
+
+export class SimulationRevertedError extends GoodSDKError {
+  /** Revert reason decoded from the contract, when available. */
+  readonly reason?: string
+
+  constructor(message: string, reason?: string, options?: GoodSDKErrorOptions) {
+    super("SIMULATION_REVERTED", message, options)
+    this.name = "SimulationRevertedError"
+    this.reason = reason
+  }
+}
+
+/**
+ * Thrown when a view call reverts, e.g. on a contract that is not deployed or
+ * does not implement the function on the chain.
+ */
+export class ContractReadRevertedError extends GoodSDKError {
+  /** Revert reason decoded from the contract, when available. */
+  readonly reason?: string
+
+  constructor(message: string, reason?: string, options?: GoodSDKErrorOptions) {
+    super("CONTRACT_READ_REVERTED", message, options)
+    this.name = "ContractReadRevertedError"
+    this.reason = reason
+  }
+}
+
+/**
+ * Thrown when a mined transaction reverted, was cancelled or replaced by a
+ * different transaction, or was not confirmed in time.
+ */
+export class TransactionFailedError extends GoodSDKError {
+  readonly hash: `0x${string}`
+  /** Revert reason decoded by replaying the call, when available. */
+  readonly reason?: string
+
+  constructor(
+    message: string,
+    hash: `0x${string}`,
+    reason?: string,
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("TRANSACTION_FAILED", message, options)
+    this.name = "TransactionFailedError"
+    this.hash = hash
+    this.reason = reason
+  }
+}
+
+export class InsufficientFundsError extends GoodSDKError {
+  constructor(
+    message: string = "Insufficient funds for gas fees.",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("INSUFFICIENT_FUNDS", message, options)
+    this.name = "InsufficientFundsError"
+  }
+}
+
+export class MissingAccountError extends GoodSDKError {
+  constructor(
+    message: string = "No active wallet address found.",
+    options?: GoodSDKErrorOptions,
+  ) {
+    super("MISSING_ACCOUNT", message, options)
+    this.name = "MissingAccountError"
+  }
+}
+
+/**
+ * Thrown when a write method is called on an SDK instance created without a wallet client.
+ */
+export class ReadOnlySDKError extends GoodSDKError {
+  readonly method: string
+
+  constructor(sdkName: string, method: string) {
+    super(
+      "READ_ONLY",
+      `${sdkName}: ${method} requires a wallet client. This instance was created in read-only mode.`,
+    )
+    this.name = "ReadOnlySDKError"
+    this.method = method
+  }
+}
+
+/**
+ * Thrown when a GoodServer request fails after retries or is rejected by the server.
+ */
+export class GoodServerError extends GoodSDKError {
+  /** HTTP status of the failed response, if one was received. */
+  readonly status?: number
+
+  constructor(message: string, status?: number, options?: GoodSDKErrorOptions) {
+    super("SERVER_ERROR", message, options)
+    this.name = "GoodServerError"
+    this.status = status
+  }
+}
+
+/**
+ * Checks whether an error is an SDK error, optionally with a specific code.
+ */
+export const isGoodSDKError = (
+  error: unknown,
+  code?: GoodSDKErrorCode,
+): error is GoodSDKError =>
+  error instanceof GoodSDKError && (code === undefined || error.code === code)
+
+/**
+ * Wraps an unknown error (usually from viem) in the matching SDK error.
+ * SDK errors are returned unchanged.
+ * @param error - The caught error.
+ * @param messagePrefix - Context prepended to the original message.
+ * @param fallbackCode - Code used when the error cannot be classified.
+ */
+export const toGoodSDKError = (
+  error: unknown,
+  messagePrefix: string,
+  fallbackCode: GoodSDKErrorCode = "UNKNOWN",
+): GoodSDKError => {
+  if (error instanceof GoodSDKError) return error
+
+  const detail =
+    (error as BaseError)?.shortMessage ??
+    (error as Error)?.message ??
+    String(error)
+  const message = `${messagePrefix}: ${detail}`
+  const options = { cause: error }
+
+  const find = <T>(predicate: (err: unknown) => boolean): T | undefined =>
+    error instanceof BaseError
+      ? ((error.walk(predicate) as T | null) ?? undefined)
+      : predicate(error)
+        ? (error as T)
+        : undefined
+
+  if (
+    find(
+      (err) =>
+        err instanceof UserRejectedRequestError ||
+        (err as { code?: number })?.code === UserRejectedRequestError.code,
+    )
+  ) {
+    return new UserRejectedError(message, options)
+  }
+
+  const revert = find<ContractFunctionRevertedError>(
+    (err) => err instanceof ContractFunctionRevertedError,
+  )
+  if (revert) {
+    return new SimulationRevertedError(
+      message,
+      revert.reason ?? revert.data?.errorName,
+      options,
+    )
+  }
+
+  if (find((err) => err instanceof ViemInsufficientFundsError)) {
+    return new InsufficientFundsError(message, options)
+  }
+
+  if (
+    find(
+      (err) => err instanceof HttpRequestError || err instanceof TimeoutError,
+    )
+  ) {
+    return new RpcUnavailableError(message, options)
+  }
+
+  return new GoodSDKError(fallbackCode, message, options)
+}
+
+/**
+ * Wraps an error from a contract read. Like {@link toGoodSDKError}, but a
+ * revert becomes CONTRACT_READ_REVERTED rather than SIMULATION_REVERTED, and
+ * unclassified failures RPC_UNAVAILABLE.
+ * @param error - The caught error.
+ * @param messagePrefix - Context prepended to the original message.
+ */
+export const toReadError = (
+  error: unknown,
+  messagePrefix: string,
+): GoodSDKError => {
+  const sdkError = toGoodSDKError(error, messagePrefix, "RPC_UNAVAILABLE")
+  if (
+    error instanceof GoodSDKError ||
+    !(sdkError instanceof SimulationRevertedError)
+  ) {
+    return sdkError
+  }
+  return new ContractReadRevertedError(sdkError.message, sdkError.reason, {
+    cause: error,
+  })
+}
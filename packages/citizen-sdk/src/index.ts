@@ -1,2 +1,3 @@
 export * from "./sdks"
 export * from "./constants"
+export * from "./errors"
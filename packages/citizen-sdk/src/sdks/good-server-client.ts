@@ -0,0 +1,265 @@
+import type { Account, Address, Chain, LocalAccount, WalletClient } from "viem"
+
+import { Envs, FV_IDENTIFIER_MSG2, type contractEnv } from "../constants"
+import { g$Request, g$Response, type ParsedBody } from "../utils/auth"
+import {
+  GoodServerError,
+  MissingAccountError,
+  MissingConfigurationError,
+} from "../errors"
+
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 500
+/** Renew the token this long before it expires. */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+/** Used when the token carries no readable `exp` claim. */
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000
+
+export interface GoodServerClientOptions {
+  env: contractEnv
+  /** Wallet client used to sign the face-verification identifier message. */
+  walletClient?: WalletClient<any, Chain | undefined, Account | undefined>
+  /** Local account used to sign instead of a wallet client (e.g. backend workers). */
+  account?: LocalAccount
+  /** Previously obtained identifier signature; skips the signing prompt. */
+  fvSig?: `0x${string}`
+  /** Overrides the env backend URL, e.g. to point at a mock server. */
+  backendUrl?: string
+  /** Retries for network errors, 5xx and 429 responses. Defaults to 2. */
+  retries?: number
+  retryDelayMs?: number
+  fetch?: typeof fetch
+}
+
+export interface TopWalletResponse extends ParsedBody {}
+
+/**
+ * Authenticated client for the GoodServer backend of a GoodDollar env.
+ * Signs the face-verification identifier once, caches the JWT and renews it
+ * before expiry or after a 401, and retries transient failures.
+ */
+export class GoodServerClient {
+  public readonly backendUrl: string
+  private readonly walletClient?: GoodServerClientOptions["walletClient"]
+  private readonly localAccount?: LocalAccount
+  private readonly address: Address
+  private readonly retries: number
+  private readonly retryDelayMs: number
+  private readonly fetchFn: typeof fetch
+  private fvSig?: `0x${string}`
+  private token?: string
+  private tokenExpiresAt = 0
+  private pendingAuth?: Promise<string>
+
+  constructor({
+    env,
+    walletClient,
+    account,
+    fvSig,
+    backendUrl,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    fetch: fetchFn,
+  }: GoodServerClientOptions) {
+    const address = account?.address ?? walletClient?.account?.address
+    if (!address) {
+      throw new MissingAccountError(
+        "GoodServerClient: a local account or a wallet client with an account is required.",
+      )
+    }
+
+    const backend = backendUrl ?? Envs[env]?.backend
+    if (!backend) {
+      throw new MissingConfigurationError(
+        `GoodServerClient: no backend configured for "${env}".`,
+      )
+    }
+
+    this.backendUrl = backend.replace(/\/$/, "")
+    this.walletClient = walletClient
+    this.localAccount = account
+    this.address = address
+    this.fvSig = fvSig
+    this.retries = retries
+    this.retryDelayMs = retryDelayMs
+    this.fetchFn = fetchFn ?? ((...args) => fetch(...args))
+  }
+
+  /**
+   * Returns the identifier signature, signing FV_IDENTIFIER_MSG2 on first use.
+   */
+  async getFVSig(): Promise<`0x${string}`> {
+    if (this.fvSig) return this.fvSig
+
+    const message = FV_IDENTIFIER_MSG2.replace("<account>", this.address)
+    if (this.localAccount) {
+      this.fvSig = await this.localAccount.signMessage({ message })
+    } else {
+      this.fvSig = await this.walletClient!.signMessage({
+        account: this.walletClient!.account!,
+        message,
+      })
+    }
+
+    return this.fvSig
+  }
+
+  /**
+   * Returns a valid JWT, authenticating when there is none or it is about to expire.
+   * Concurrent callers share one authentication request.
+   * @param force - Ignore the cached token.
+   */
+  async getToken(force: boolean = false): Promise<string> {
+    if (
+      !force &&
+      this.token &&
+      Date.now() < this.tokenExpiresAt - TOKEN_EXPIRY_MARGIN_MS
+    ) {
+      return this.token
+    }
+
+    if (!this.pendingAuth) {
+      this.pendingAuth = this.authenticate().finally(() => {
+        this.pendingAuth = undefined
+      })
+    }
+
+    return this.pendingAuth
+  }
+
+  /**
+   * Drops the cached token, forcing a new authentication on the next request.
+   */
+  clearToken(): void {
+    this.token = undefined
+    this.tokenExpiresAt = 0
+  }
+
+  /**
+   * Sends an authenticated request. A 401 triggers one re-authentication.
+   * @param path - Path relative to the backend URL, e.g. "/verify/topWallet".
+   * @param json - Request body.
+   * @param method - HTTP method. Defaults to POST.
+   * @returns The parsed response body.
+   * @throws GoodServerError if the server rejects the request.
+   */
+  async request<T extends ParsedBody = ParsedBody>(
+    path: string,
+    json: any = {},
+    method: string = "POST",
+  ): Promise<T> {
+    let token = await this.getToken()
+    let response = await this.send(path, json, method, token)
+
+    if (response.status === 401) {
+      token = await this.getToken(true)
+      response = await this.send(path, json, method, token)
+    }
+
+    return (await this.parse(response)) as T
+  }
+
+  /**
+   * Asks the backend faucet to top up the client account with gas.
+   * @param chainId - The chain to top up on.
+   */
+  async topWallet(chainId: number): Promise<TopWalletResponse> {
+    return this.request<TopWalletResponse>("/verify/topWallet", {
+      chainId,
+      account: this.address,
+    })
+  }
+
+  /**
+   * Deletes the anonymized face record identified by the FV identifier signature.
+   * @param enrollmentIdentifier - The identifier signature of FV_IDENTIFIER_MSG2.
+   * @throws GoodServerError with status 404 when no record exists.
+   */
+  async deleteFaceRecord(enrollmentIdentifier: string): Promise<ParsedBody> {
+    return this.request(
+      `/verify/face/${encodeURIComponent(enrollmentIdentifier)}`,
+      { fvSigner: this.address },
+      "DELETE",
+    )
+  }
+
+  private async authenticate(): Promise<string> {
+    const fvsig = await this.getFVSig()
+    const response = await this.send("/auth/fv2", {
+      fvsig,
+      account: this.address,
+    })
+    const { token } = await this.parse(response)
+
+    if (typeof token !== "string" || !token) {
+      throw new GoodServerError("Authentication response has no token.")
+    }
+
+    this.token = token
+    this.tokenExpiresAt =
+      getTokenExpiry(token) ?? Date.now() + DEFAULT_TOKEN_TTL_MS
+    return token
+  }
+
+  private async send(
+    path: string,
+    json: any,
+    method: string = "POST",
+    token?: string,
+  ): Promise<Response> {
+    const url = `${this.backendUrl}${path}`
+    const headers: Record<string, string> = token
+      ? { Authorization: `Bearer ${token}` }
+      : {}
+    const init = g$Request(json, method, headers)
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.fetchFn(url, init)
+        const retryable = response.status >= 500 || response.status === 429
+        if (!retryable || attempt >= this.retries) {
+          return response
+        }
+      } catch (error) {
+        if (attempt >= this.retries) {
+          throw new GoodServerError(
+            `Request to ${path} failed: ${(error as Error)?.message ?? error}`,
+            undefined,
+            { cause: error },
+          )
+        }
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.retryDelayMs * 2 ** attempt),
+      )
+    }
+  }
+
+  private async parse(response: Response): Promise<ParsedBody> {
+    try {
+      return await g$Response(response)
+    } catch (error: any) {
+      throw new GoodServerError(error.message, response.status, {
+        cause: error,
+      })
+    }
+  }
+}
+
+/**
+ * Reads the `exp` claim of a JWT.
+ * @returns The expiry in epoch ms, or undefined when the token cannot be decoded.
+ */
+const getTokenExpiry = (token: string): number | undefined => {
+  try {
+    const payload = token.split(".")[1]
+    if (!payload) return undefined
+
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/")
+    const { exp } = JSON.parse(atob(base64))
+    return typeof exp === "number" ? exp * 1000 : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -1,4 +1,6 @@
 export * from "./viem-identity-sdk"
+export * from "./viem-identity-admin-sdk"
 export * from "./viem-claim-sdk"
 export * from "./viem-custodial-claim-sdk"
 export * from "./viem-custodial-identity-sdk"
+export * from "./good-server-client"
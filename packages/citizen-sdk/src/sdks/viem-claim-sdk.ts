@@ -1,4 +1,7 @@
 import {
+  createWalletClient,
+  custom,
+  formatUnits,
   zeroAddress,
   type Account,
   type Address,
@@ -6,52 +9,191 @@ import {
   type PublicClient,
   type SimulateContractParameters,
   type WalletClient,
-  ContractFunctionExecutionError,
   TransactionReceipt,
 } from "viem"
 
-import { waitForTransactionReceipt } from "viem/actions"
-
 import { IdentitySDK } from "./viem-identity-sdk"
 import {
   contractEnv,
   chainConfigs,
+  CHAIN_DECIMALS,
   FALLBACK_CHAIN_PRIORITY,
   SupportedChains,
   faucetABI,
+  getViemChain,
   isSupportedChain,
   ubiSchemeV2ABI,
 } from "../constants"
-import type { ContractAddresses } from "../constants"
-import { resolveChainAndContract } from "../utils/chains"
-import { triggerFaucet as triggerFaucetUtil } from "../utils/triggerFaucet"
+import type { ContractAddresses, ContractOverrides } from "../constants"
+import {
+  AlreadyClaimedError,
+  FaucetError,
+  GoodSDKError,
+  MissingAccountError,
+  MissingConfigurationError,
+  NotWhitelistedError,
+  ReadOnlySDKError,
+  toGoodSDKError,
+  toReadError,
+  UnsupportedChainError,
+} from "../errors"
+import { getChainContracts, resolveChainAndContract } from "../utils/chains"
+import {
+  DEFAULT_CHAIN_READ_TIMEOUT_MS,
+  DEFAULT_EVENT_BATCH_SIZE,
+  DEFAULT_EVENT_LOOKBACK,
+  fetchInBlockBatches,
+  promisePool,
+  withTimeout,
+} from "../utils/rpc"
 import {
-  createRpcIteratorRegistry,
-  extractErrorMessage,
-  getRpcFallbackClient,
-  shouldRetryRpcFallback,
-} from "../utils/rpcFallback"
+  canClaim as hasClaimGasBalance,
+  type FaucetOutcome,
+  triggerFaucet as triggerFaucetUtil,
+} from "../utils/triggerFaucet"
+import { extractErrorMessage, getRpcPool, type RpcPool } from "../utils/rpcPool"
+import { getMulticallClient, type ReadCache } from "../utils/readCache"
+import {
+  mergeTransactionOptions,
+  submitTransaction,
+  type SimulatedRequest,
+  type TransactionOptions,
+} from "../utils/transactions"
+import type { AnyStorage } from "../utils/storage"
+
+export type {
+  FaucetOutcome,
+  FaucetSkipReason,
+  TriggerFaucetResult,
+} from "../utils/triggerFaucet"
+export {
+  createFileStorage,
+  createMemoryStorage,
+  getDefaultStorage,
+} from "../utils/storage"
+export type {
+  AnyStorage,
+  AsyncStorageLike,
+  FileStorageOptions,
+  FileSystemLike,
+  StorageLike,
+} from "../utils/storage"
+export {
+  addRpcUrls,
+  createRpcPool,
+  getRpcPool,
+  isRetryableRpcError,
+} from "../utils/rpcPool"
+export type {
+  RpcEndpointHealth,
+  RpcPool,
+  RpcPoolOptions,
+} from "../utils/rpcPool"
+export { createReadCache, DEFAULT_READ_CACHE_TTLS } from "../utils/readCache"
+export {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_TRANSACTION_TIMEOUT_MS,
+  mergeTransactionOptions,
+  submitTransaction,
+} from "../utils/transactions"
+export type {
+  SimulatedRequest,
+  SubmitTransactionParameters,
+  TransactionHooks,
+  TransactionOptions,
+} from "../utils/transactions"
+export type {
+  ReadCache,
+  ReadCacheKey,
+  ReadCacheOptions,
+} from "../utils/readCache"
+export {
+  createNonceManager,
+  DEFAULT_NONCE_DROPPED_AFTER_MS,
+  DEFAULT_NONCE_SEND_ATTEMPTS,
+  getDefaultNonceManager,
+} from "../utils/nonceManager"
+export type {
+  NonceManager,
+  NonceManagerOptions,
+  NonceScope,
+} from "../utils/nonceManager"
 
 export interface ClaimSDKOptions {
-  account: Address
+  account?: Address
   publicClient: PublicClient
-  walletClient: WalletClient<any, Chain | undefined, Account | undefined>
+  /** Omit to create a read-only instance; write methods then throw {@link ReadOnlySDKError}. */
+  walletClient?: WalletClient<any, Chain | undefined, Account | undefined>
+  /** Chain to bind to in read-only mode. Defaults to the public client chain. */
+  chainId?: SupportedChains
   identitySDK: IdentitySDK
   rdu?: string
   env?: contractEnv
+  /** Contract addresses to use instead of the registry, per chain. */
+  contracts?: ContractOverrides
+  /**
+   * Where faucet top-up times are recorded for throttling, keyed per account and chain.
+   * Defaults to `localStorage`, or an in-memory store where it is unavailable.
+   */
+  storage?: AnyStorage
+  /**
+   * Pool serving reads on the bound chain. Defaults to the chain's shared pool;
+   * `false` reads through `publicClient`. Other chains always use their shared pool.
+   */
+  rpcPool?: RpcPool | false
+  /**
+   * Opt-in read cache (see `createReadCache`). Defaults to the IdentitySDK cache;
+   * share one instance between both SDKs.
+   */
+  cache?: ReadCache
+  /** Confirmations, timeout and lifecycle hooks applied to every transaction. */
+  transactions?: TransactionOptions
+}
+
+export interface ClaimSDKReadOnlyOptions {
+  publicClient: PublicClient
+  chainId?: SupportedChains
+  env?: contractEnv
+  /** Address whose entitlement and claim status are read. */
+  account?: Address
+  /** Contract addresses to use instead of the registry, per chain. */
+  contracts?: ContractOverrides
+  /** See {@link ClaimSDKOptions.rpcPool}. */
+  rpcPool?: RpcPool | false
+  /** Read cache shared with the default IdentitySDK. */
+  cache?: ReadCache
+  /** Defaults to a read-only IdentitySDK bound to the same client and chain. */
+  identitySDK?: IdentitySDK
 }
 
 const DAY = 1000 * 60 * 60 * 24
+const DAY_SECONDS = BigInt(DAY / 1000)
+
+/** The UBIScheme claim day containing the latest block. */
+export interface ClaimPeriod {
+  /** Start of the current claim day, in chain time. */
+  start: Date
+  /** End of the current claim day, when the next claim opens, in chain time. */
+  end: Date
+  /** Seconds from the latest block until `end`. */
+  secondsRemaining: number
+  /** Timestamp of the block the window was computed from. */
+  blockTimestamp: Date
+}
 
 export interface WalletClaimStatus {
   status: "not_whitelisted" | "can_claim" | "already_claimed"
   entitlement: bigint
   nextClaimTime?: Date
+  /** Set with `nextClaimTime` when the entitlement is already claimed. */
+  claimPeriod?: ClaimPeriod
 }
 
 export interface CheckEntitlementOptions {
   publicClient?: PublicClient
   chainOverride?: SupportedChains
+  /** Whitelisted root of the account, when already resolved. Skips the identity lookup. */
+  root?: Address
 }
 
 export interface ClaimEntitlementResult {
@@ -61,56 +203,266 @@ export interface ClaimEntitlementResult {
   altAmount: bigint | null
 }
 
+export interface GetEntitlementsAllChainsOptions {
+  /** Chains to query. Defaults to the active chain and every fallback chain with contracts in this env. */
+  chains?: SupportedChains[]
+  /** Per-chain time budget before the RPC is reported unhealthy. Defaults to {@link DEFAULT_CHAIN_READ_TIMEOUT_MS}. */
+  timeoutMs?: number
+  /** Whitelisted root of the account, when already resolved. Skips the identity lookup. */
+  root?: Address
+}
+
+export interface ChainEntitlement {
+  chainId: SupportedChains
+  /** Claimable amount in the chain's smallest unit, or null when the chain could not be read. */
+  amount: bigint | null
+  /** `amount` formatted with `CHAIN_DECIMALS`. */
+  formattedAmount: string | null
+  /** Same semantics as `nextClaimTime()`: the epoch when a claim is available now. */
+  nextClaimTime: Date | null
+  claimPeriod: ClaimPeriod | null
+  rpc: {
+    healthy: boolean
+    latencyMs: number
+    error?: GoodSDKError
+  }
+}
+
+export type ClaimStep =
+  | "switching_chain"
+  | "whitelist"
+  | "entitlement"
+  | "faucet"
+  | "simulating"
+  | "submitted"
+  | "confirmed"
+
+export interface ClaimProgressEvent {
+  step: ClaimStep
+  chainId: SupportedChains
+  /** Claim transaction hash, set from `submitted` on. */
+  hash?: `0x${string}`
+  /** Set on the `faucet` step after each top-up attempt. */
+  faucet?: FaucetOutcome
+}
+
+export interface ClaimOptions {
+  /** Called as the claim moves through each step. */
+  onStep?: (event: ClaimProgressEvent) => void
+}
+
+export interface ClaimOnChainResult {
+  /** Chain the claim was sent on. */
+  chainId: SupportedChains
+  receipt: TransactionReceipt
+}
+
+export type ClaimPreflightAction =
+  | "verify_identity"
+  | "switch_chain"
+  | "wait_for_next_period"
+  | "faucet_top_up"
+  | "fund_wallet"
+  | "check_gas_balance"
+  | "resolve_revert"
+  | "claim"
+
+export interface ClaimPreflightRecommendation {
+  action: ClaimPreflightAction
+  message: string
+  /** Chain to switch to, set for `switch_chain`. */
+  chainId?: SupportedChains
+}
+
+export interface ClaimPreflightReport {
+  chainId: SupportedChains
+  account: Address
+  /** Whitelisted root the claim is made for (the zero address when not whitelisted). */
+  root: Address
+  isWhitelisted: boolean
+  /** Entitlement on the active chain, with alternative chain hints. Null when not whitelisted. */
+  entitlement: ClaimEntitlementResult | null
+  /** Set when the entitlement for this period is already claimed. */
+  nextClaimTime: Date | null
+  faucet: {
+    /** True when the balance is below the claim threshold, so `claim()` will request a top-up. */
+    needed: boolean
+    canTop: boolean
+    balance: bigint
+    toppingAmount: bigint
+    minTopping: number
+  } | null
+  gas: {
+    estimate: bigint
+    gasPrice: bigint
+    cost: bigint
+  } | null
+  /** Result of simulating `claim` on the UBIScheme contract. Null when skipped. */
+  simulation: { ok: true } | { ok: false; error: GoodSDKError } | null
+  /** True when `claim()` is expected to succeed without further user action. */
+  ready: boolean
+  recommendations: ClaimPreflightRecommendation[]
+}
+
+export interface GetClaimHistoryOptions {
+  /** First block to scan. A single value applies to every chain. Defaults to the last {@link DEFAULT_EVENT_LOOKBACK} blocks. */
+  fromBlock?: bigint | Partial<Record<SupportedChains, bigint>>
+  /** Last block to scan. Defaults to the latest block of each chain. */
+  toBlock?: bigint | Partial<Record<SupportedChains, bigint>>
+  /** Chains to scan. Defaults to every chain configured for the env. */
+  chains?: SupportedChains[]
+  /** Blocks per `eth_getLogs` request. Defaults to {@link DEFAULT_EVENT_BATCH_SIZE}. */
+  batchSize?: bigint
+  /** Address to read history for. Defaults to the SDK account. */
+  account?: Address
+}
+
+export interface ClaimHistoryEntry {
+  chainId: SupportedChains
+  /** Root identity credited with the claim. */
+  account: Address
+  amount: bigint
+  blockNumber: bigint
+  transactionHash: `0x${string}`
+  timestamp: Date
+}
+
+export interface ClaimHistoryFailure {
+  chainId: SupportedChains
+  fromBlock?: bigint
+  toBlock?: bigint
+  error: string
+}
+
+export interface ClaimHistory {
+  /** Root identity the history was read for. */
+  root: Address
+  /** Claims across all scanned chains, oldest first. */
+  claims: ClaimHistoryEntry[]
+  /** Chains or block ranges that could not be read after retries. */
+  failures: ClaimHistoryFailure[]
+}
+
+export interface ClaimerChainStats {
+  chainId: SupportedChains
+  claimCount: number
+  totalClaimed: bigint
+  /** `totalClaimed` normalised with {@link CHAIN_DECIMALS}. */
+  totalClaimedFormatted: number
+}
+
+export interface ClaimerStats {
+  root: Address
+  /** UBIScheme day index (`currentDay`) on the SDK chain. */
+  currentDay: number
+  /** Whether a claim was already made during `currentDay`. */
+  claimedToday: boolean
+  /** Consecutive claim days up to today, or up to yesterday when today is still open. */
+  currentStreak: number
+  longestStreak: number
+  daysClaimed: number
+  /** Days without a claim since the first claim in the scanned range. */
+  daysMissed: number
+  /** Sum of normalised totals across chains. */
+  totalClaimed: number
+  /** `totalClaimed` divided by `daysClaimed`. */
+  averageDailyAmount: number
+  chains: ClaimerChainStats[]
+  /** Chains, block ranges or periods that could not be read; stats may be incomplete. */
+  failures: ClaimHistoryFailure[]
+}
+
 type AltClaimCandidate = {
   chainId: SupportedChains
   amount: bigint
 }
 
+/**
+ * Places the end of `period` on the local clock, so countdowns computed
+ * against `Date.now()` stay correct when the device clock is skewed.
+ */
+const toLocalClaimTime = (period: ClaimPeriod): Date =>
+  new Date(Date.now() + period.secondsRemaining * 1000)
+
+/** EIP-1193 code returned by wallets that do not know the requested chain. */
+const UNRECOGNIZED_CHAIN_CODE = 4902
+
+const isUnrecognizedChainError = (error: any): boolean => {
+  if (error?.code === UNRECOGNIZED_CHAIN_CODE) return true
+  return Boolean(
+    error?.walk?.((cause: any) => cause?.code === UNRECOGNIZED_CHAIN_CODE),
+  )
+}
+
 export class ClaimSDK {
   readonly publicClient: PublicClient
-  readonly walletClient: WalletClient<
+  /** Client used for reads: the RPC pool of the bound chain, unless disabled. */
+  protected readonly readClient: PublicClient
+  readonly walletClient?: WalletClient<
     any,
     Chain | undefined,
     Account | undefined
   >
+  public readonly isReadOnly: boolean
   private readonly identitySDK: IdentitySDK
   private readonly chainId: SupportedChains
   private readonly chainContracts: Map<SupportedChains, ContractAddresses>
   private readonly fallbackChains: SupportedChains[]
-  private readonly rpcIterators = createRpcIteratorRegistry()
   private readonly fvDefaultChain: SupportedChains
   private readonly ubiSchemeAddress: Address
   private readonly faucetAddress: Address
-  private readonly account: Address
+  private readonly account?: Address
   private readonly env: contractEnv
+  private readonly storage?: AnyStorage
+  private readonly contractOverrides?: ContractOverrides
+  private readonly cache?: ReadCache
+  private readonly transactionOptions?: TransactionOptions
   public readonly rdu: string
 
   constructor({
     account,
     publicClient,
     walletClient,
+    chainId: chainOverride,
     identitySDK,
     rdu = typeof window !== "undefined" ? window.location.href : "",
     env = "production",
+    storage,
+    contracts,
+    rpcPool,
+    cache = identitySDK.cache,
+    transactions,
   }: ClaimSDKOptions) {
-    if (!walletClient.account) {
-      throw new Error("ClaimSDK: WalletClient must have an account attached.")
+    if (walletClient && !walletClient.account) {
+      throw new MissingAccountError(
+        "ClaimSDK: WalletClient must have an account attached.",
+      )
     }
     this.publicClient = publicClient
     this.walletClient = walletClient
+    this.isReadOnly = !walletClient
     this.identitySDK = identitySDK
-    this.account = account ?? walletClient.account.address
+    this.account = account ?? walletClient?.account?.address
 
     this.rdu = rdu
     this.env = env
+    this.storage = storage
+    this.contractOverrides = contracts
+    this.cache = cache
+    this.transactionOptions = transactions
 
     const { chainId, contractEnvAddresses } = resolveChainAndContract(
-      walletClient,
+      walletClient
+        ? walletClient.chain?.id
+        : (chainOverride ?? publicClient.chain?.id),
       env,
+      contracts,
     )
 
     this.chainId = chainId
     this.chainContracts = new Map([[chainId, contractEnvAddresses]])
+    this.readClient =
+      rpcPool === false ? publicClient : (rpcPool ?? getRpcPool(chainId)).client
 
     const config = chainConfigs[chainId]
     this.fvDefaultChain = config.fvDefaultChain ?? chainId
@@ -119,8 +471,11 @@ export class ClaimSDK {
       (fallbackChain) => fallbackChain !== chainId,
     )
       .map((fallbackChain) => {
-        const fallbackContracts =
-          chainConfigs[fallbackChain]?.contracts[env] ?? null
+        const fallbackContracts = getChainContracts(
+          fallbackChain,
+          env,
+          contracts,
+        )
 
         if (!fallbackContracts) {
           return null
@@ -143,11 +498,37 @@ export class ClaimSDK {
     this.faucetAddress = contractEnvAddresses.faucetContract as Address
   }
 
+  /**
+   * Returns the wallet client or throws when the instance is read-only.
+   * @param method - The calling method name, used in the error message.
+   */
+  protected requireWalletClient(
+    method: string,
+  ): WalletClient<any, Chain | undefined, Account | undefined> {
+    if (!this.walletClient) {
+      throw new ReadOnlySDKError("ClaimSDK", method)
+    }
+    return this.walletClient
+  }
+
+  /**
+   * Returns the SDK account or throws when none was provided.
+   * @param method - The calling method name, used in the error message.
+   */
+  private requireAccount(method: string): Address {
+    if (!this.account) {
+      throw new MissingAccountError(
+        `ClaimSDK: ${method} requires an account address.`,
+      )
+    }
+    return this.account
+  }
+
   private getContractsForChain(chainId: SupportedChains): ContractAddresses {
     const contracts = this.chainContracts.get(chainId)
 
     if (!contracts) {
-      throw new Error(
+      throw new MissingConfigurationError(
         `Missing contract configuration for chain ${chainId} in env ${this.env}.`,
       )
     }
@@ -156,7 +537,7 @@ export class ClaimSDK {
   }
 
   private getActiveChainId(): SupportedChains {
-    const connectedChainId = this.walletClient.chain?.id
+    const connectedChainId = this.walletClient?.chain?.id
 
     if (isSupportedChain(connectedChainId)) {
       return connectedChainId
@@ -169,25 +550,17 @@ export class ClaimSDK {
   private async readChainEntitlement(
     chainId: SupportedChains,
     client?: PublicClient,
+    root?: Address,
   ): Promise<bigint> {
     const contracts = this.getContractsForChain(chainId)
-    const isPrimaryChain = chainId === this.chainId
 
-    const resolvedClient = client
-      ? client
-      : isPrimaryChain
-        ? this.publicClient
-        : getRpcFallbackClient(chainId, this.rpcIterators)
-
-    let altClient: PublicClient | undefined
-    if (isPrimaryChain) {
-      altClient = client ? resolvedClient : undefined
-    } else {
-      altClient = resolvedClient
-    }
-
-    const { root: rootAddress } =
-      await this.identitySDK.getWhitelistedRoot(this.account)
+    const rootAddress =
+      root ??
+      (
+        await this.identitySDK.getWhitelistedRoot(
+          this.requireAccount("checkEntitlement"),
+        )
+      ).root
 
     return this.readContract<bigint>(
       {
@@ -196,47 +569,84 @@ export class ClaimSDK {
         functionName: "checkEntitlement",
         args: [rootAddress],
       },
-      altClient,
       chainId,
+      client,
     )
   }
 
-  private async findAltEntitlement(): Promise<AltClaimCandidate | null> {
-    for (const fallbackChainId of this.fallbackChains) {
-      const rpcUrls = [...(chainConfigs[fallbackChainId]?.rpcUrls ?? [])]
-      if (!rpcUrls.length) {
-        continue
-      }
-
-      for (let attempt = 0; attempt < rpcUrls.length; attempt++) {
-        try {
-          const amount = await this.readChainEntitlement(fallbackChainId)
-          if (amount > 0n) {
-            return {
-              chainId: fallbackChainId,
-              amount,
-            }
-          }
-        } catch {
-          // Try next RPC endpoint if the current one fails.
-          continue
-        }
-      }
+  private async findAltEntitlement(
+    root: Address,
+  ): Promise<AltClaimCandidate | null> {
+    if (!this.fallbackChains.length) {
+      return null
     }
 
-    return null
+    // Fallback chains are read in parallel; the first with an amount in priority order wins.
+    const entitlements = await this.getEntitlementsAllChains({
+      chains: this.fallbackChains,
+      root,
+    })
+    const alt = entitlements.find(
+      ({ amount }) => amount !== null && amount > 0n,
+    )
+
+    return alt ? { chainId: alt.chainId, amount: alt.amount! } : null
   }
 
   static async init(
-    props: Omit<ClaimSDKOptions, "account">,
+    props: Omit<ClaimSDKOptions, "account" | "chainId"> &
+      Required<Pick<ClaimSDKOptions, "walletClient">>,
   ): Promise<ClaimSDK> {
     const [account] = await props.walletClient.getAddresses()
     return new ClaimSDK({ account, ...props })
   }
 
   /**
-   * Reads a contract function using publicClient.
+   * Creates a ClaimSDK that only exposes view methods, without a wallet client.
+   * Account-scoped views (entitlement, claim status) require `account`.
+   * @param options - Public client, chain, env, target account and optional IdentitySDK.
+   * @returns A read-only ClaimSDK instance.
+   */
+  static readOnly({
+    publicClient,
+    chainId,
+    env = "production",
+    account,
+    identitySDK,
+    contracts,
+    rpcPool,
+    cache,
+  }: ClaimSDKReadOnlyOptions): ClaimSDK {
+    return new ClaimSDK({
+      account,
+      publicClient,
+      chainId,
+      env,
+      rdu: "",
+      contracts,
+      rpcPool,
+      cache,
+      identitySDK:
+        identitySDK ??
+        IdentitySDK.readOnly({
+          publicClient,
+          chainId,
+          env,
+          account,
+          contracts,
+          rpcPool,
+          cache,
+        }),
+    })
+  }
+
+  /**
+   * Reads a contract function through the RPC pool of the chain.
+   * Transient RPC failures are retried by the pool. With a `cache`, results are
+   * cached per function TTL and concurrent reads are batched with multicall3.
    * @param params - Parameters for the contract read operation.
+   * @param chainId - Chain to read. Defaults to the SDK chain.
+   * @param client - Client to read with. Defaults to the chain's read client.
    * @returns The result of the contract read.
    * @throws If the contract read fails.
    */
@@ -247,70 +657,76 @@ export class ClaimSDK {
       functionName: string
       args?: any[]
     },
-    altClient?: PublicClient,
-    targetChain?: SupportedChains,
-    attempt = 0,
+    chainId: SupportedChains = this.chainId,
+    client: PublicClient = this.getChainClient(chainId),
   ): Promise<T> {
-    const chainId = targetChain ?? this.chainId
-    const client = altClient || this.publicClient
     const errorPrefix = `Failed to read contract ${params.functionName}`
+    const { cache } = this
+    const read = () =>
+      cache?.multicall
+        ? // multicall3 calls cannot carry `from`; the views read here ignore msg.sender.
+          getMulticallClient(client).readContract({
+            address: params.address,
+            abi: params.abi,
+            functionName: params.functionName,
+            args: params.args || [],
+          })
+        : client.readContract({
+            address: params.address,
+            abi: params.abi,
+            functionName: params.functionName,
+            args: params.args || [],
+            account: this.account,
+          })
+
     try {
-      return (await client.readContract({
-        address: params.address,
-        abi: params.abi,
-        functionName: params.functionName,
-        args: params.args || [],
-        account: this.account,
-      })) as T
+      return (await (cache
+        ? cache.read({ chainId, ...params }, read)
+        : read())) as T
     } catch (error: any) {
-      // While fuse/celo work out of the box, there is a transport issue while connecting to XDC.
-      // Resulting in --> Details: transports[i] is not a function
-      // Retry once with a fallback RPC from the list
-      const combinedMessage = extractErrorMessage(error)
-      if (shouldRetryRpcFallback(combinedMessage, chainId, attempt)) {
-        const fallbackClient = getRpcFallbackClient(chainId, this.rpcIterators)
-        return this.readContract<T>(
-          params,
-          fallbackClient,
-          chainId,
-          attempt + 1,
-        )
-      }
-
-      throw new Error(`${errorPrefix}: ${combinedMessage}`)
+      throw toReadError(error, errorPrefix)
     }
   }
 
   /**
-   * Submits a transaction and waits for its receipt.
+   * Submits a transaction through the shared transaction engine: simulates,
+   * sends, follows replacements and waits for the configured confirmations.
    * @param params - Parameters for simulating the contract call.
    * @param onHash - Optional callback to receive the transaction hash.
+   * @param options - Lifecycle hooks and limits, merged over the SDK `transactions` option.
    * @returns The transaction receipt.
-   * @throws If submission fails or no active wallet address is found.
+   * @throws SimulationRevertedError if the call reverts in simulation, UserRejectedError if the wallet declines,
+   * TransactionFailedError if it reverts on chain, is cancelled or replaced, or is not confirmed in time.
    */
   async submitAndWait(
     params: SimulateContractParameters,
     onHash?: (hash: `0x${string}`) => void,
+    options?: TransactionOptions,
   ): Promise<TransactionReceipt> {
+    const walletClient = this.requireWalletClient("submitAndWait")
     if (!this.account) {
-      throw new Error("No active wallet address found.")
+      throw new MissingAccountError()
     }
 
-    const { request } = await this.publicClient.simulateContract({
+    return submitTransaction({
+      publicClient: this.readClient,
+      walletClient,
       account: this.account,
-      ...params,
+      params,
+      send: (request) => this.sendRequest(walletClient, request),
+      ...mergeTransactionOptions(this.transactionOptions, options, { onHash }),
     })
+  }
 
-    const hash = await this.walletClient.writeContract(request)
-    onHash?.(hash)
-
-    // Wait one block to prevent waitFor... from immediately throwing an error
-    await new Promise((res) => setTimeout(res, 5000))
-
-    return waitForTransactionReceipt(this.publicClient, {
-      hash,
-      retryDelay: 5000,
-    })
+  /**
+   * Sends a simulated request. Subclasses override it to change how
+   * transactions are signed and broadcast.
+   */
+  protected sendRequest(
+    walletClient: WalletClient<any, Chain | undefined, Account | undefined>,
+    request: SimulatedRequest,
+  ): Promise<`0x${string}`> {
+    return walletClient.writeContract(request)
   }
 
   /**
@@ -328,8 +744,19 @@ export class ClaimSDK {
     const targetChain = options.chainOverride ?? this.chainId
     const clientOverride = options.publicClient
     const isPrimaryChain = targetChain === this.chainId
+    const root =
+      options.root ??
+      (
+        await this.identitySDK.getWhitelistedRoot(
+          this.requireAccount("checkEntitlement"),
+        )
+      ).root
 
-    const amount = await this.readChainEntitlement(targetChain, clientOverride)
+    const amount = await this.readChainEntitlement(
+      targetChain,
+      clientOverride,
+      root,
+    )
 
     if (!isPrimaryChain) {
       const hasAltAmount = amount > 0n
@@ -350,7 +777,7 @@ export class ClaimSDK {
       }
     }
 
-    const altClaim = await this.findAltEntitlement()
+    const altClaim = await this.findAltEntitlement(root)
 
     return {
       amount,
@@ -367,10 +794,10 @@ export class ClaimSDK {
    * @throws If unable to check wallet status or fetch required data.
    */
   async getWalletClaimStatus(): Promise<WalletClaimStatus> {
-    const userAddress = this.account
+    const userAddress = this.requireAccount("getWalletClaimStatus")
 
     // 1. Check whitelisting status
-    const { isWhitelisted } =
+    const { isWhitelisted, root } =
       await this.identitySDK.getWhitelistedRoot(userAddress)
 
     if (!isWhitelisted) {
@@ -380,9 +807,13 @@ export class ClaimSDK {
       }
     }
 
-    // 2. Check entitlement (if 0, user has already claimed or can't claim)
-    const entitlementResult = await this.checkEntitlement()
-    const entitlement = entitlementResult.amount
+    // 2. Check entitlement (if 0, user has already claimed or can't claim).
+    // The root is reused and fallback chains are not probed.
+    const entitlement = await this.readChainEntitlement(
+      this.chainId,
+      undefined,
+      root,
+    )
 
     if (entitlement > 0n) {
       return {
@@ -392,11 +823,352 @@ export class ClaimSDK {
     }
 
     // 3. User is whitelisted but can't claim (already claimed)
-    const nextClaimTime = await this.nextClaimTime()
+    const claimPeriod = await this.getClaimPeriod()
     return {
       status: "already_claimed",
       entitlement: 0n,
-      nextClaimTime,
+      nextClaimTime: toLocalClaimTime(claimPeriod),
+      claimPeriod,
+    }
+  }
+
+  /**
+   * Claims on the given chain, switching the wallet there first when needed.
+   * Wallets that do not know the chain are asked to add it. Contracts, the
+   * faucet check and the claim itself then run against that chain's
+   * `chainConfigs` entry. This instance stays bound to its original chain;
+   * re-initialise it after a switch to keep using the new one.
+   * @param chainId - Chain to claim on.
+   * @param txConfirm - Optional callback to confirm transactions before execution.
+   * @param options - Optional `onStep` callback; emits `switching_chain` before the wallet prompt.
+   * @returns The chain used and the claim receipt.
+   * @throws UnsupportedChainError, UserRejectedError if the switch is declined, or any `claim()` error.
+   */
+  async claimOnChain(
+    chainId: SupportedChains,
+    txConfirm?: (message: string) => void | Promise<void>,
+    options: ClaimOptions = {},
+  ): Promise<ClaimOnChainResult> {
+    const walletClient = this.requireWalletClient("claimOnChain")
+    const account = this.requireAccount("claimOnChain")
+
+    if (!isSupportedChain(chainId)) {
+      throw new UnsupportedChainError(chainId)
+    }
+
+    if (chainId === this.getActiveChainId()) {
+      return { chainId, receipt: await this.claim(txConfirm, options) }
+    }
+
+    const chain = getViemChain(chainId)
+    // Local accounts sign in-process, so only the transport has to follow the chain.
+    const isLocalAccount = walletClient.account?.type === "local"
+
+    if (!isLocalAccount) {
+      options.onStep?.({ step: "switching_chain", chainId })
+      await this.switchWalletChain(chain)
+    }
+
+    const chainPool = getRpcPool(chainId)
+    const chainWalletClient = createWalletClient({
+      account: walletClient.account,
+      chain,
+      transport: custom({
+        request: isLocalAccount ? chainPool.request : walletClient.request,
+      }),
+    })
+    const chainPublicClient = chainPool.client
+
+    const chainSDK = this.cloneForChain({
+      account,
+      publicClient: chainPublicClient,
+      walletClient: chainWalletClient,
+      identitySDK: new IdentitySDK({
+        account,
+        publicClient: chainPublicClient,
+        walletClient: chainWalletClient,
+        env: this.env,
+        contracts: this.contractOverrides,
+        cache: this.cache,
+        transactions: this.transactionOptions,
+      }),
+      rdu: this.rdu,
+      env: this.env,
+      storage: this.storage,
+      contracts: this.contractOverrides,
+      cache: this.cache,
+      transactions: this.transactionOptions,
+    })
+
+    return { chainId, receipt: await chainSDK.claim(txConfirm, options) }
+  }
+
+  /**
+   * Creates the SDK used by `claimOnChain` for another chain. Subclasses
+   * override it to carry their own settings over to the new instance.
+   * @param options - Options bound to the target chain.
+   */
+  protected cloneForChain(options: ClaimSDKOptions): ClaimSDK {
+    const SDK = this.constructor as typeof ClaimSDK
+    return new SDK(options)
+  }
+
+  /**
+   * Claims on the active chain when it has an entitlement, otherwise on the
+   * first fallback chain that has one (see `checkEntitlement`).
+   * @param txConfirm - Optional callback to confirm transactions before execution.
+   * @param options - Optional `onStep` callback reporting progress for steppers.
+   * @returns The chain used and the claim receipt.
+   * @throws AlreadyClaimedError when no chain has anything left to claim, or any `claimOnChain()` error.
+   */
+  async claimBest(
+    txConfirm?: (message: string) => void | Promise<void>,
+    options: ClaimOptions = {},
+  ): Promise<ClaimOnChainResult> {
+    this.requireWalletClient("claimBest")
+
+    const { amount, altClaimAvailable, altChainId } =
+      await this.checkEntitlement()
+
+    if (amount > 0n) {
+      return this.claimOnChain(this.chainId, txConfirm, options)
+    }
+
+    if (altClaimAvailable && altChainId) {
+      return this.claimOnChain(altChainId, txConfirm, options)
+    }
+
+    throw new AlreadyClaimedError()
+  }
+
+  /**
+   * Asks the wallet to switch to `chain`, adding it first when the wallet does not know it.
+   * @throws UserRejectedError if the user declines either request.
+   */
+  private async switchWalletChain(chain: Chain): Promise<void> {
+    const walletClient = this.requireWalletClient("switchWalletChain")
+
+    try {
+      await walletClient.switchChain({ id: chain.id })
+    } catch (error: any) {
+      if (!isUnrecognizedChainError(error)) {
+        throw toGoodSDKError(error, `Failed to switch to ${chain.name}`)
+      }
+
+      try {
+        await walletClient.addChain({ chain })
+        await walletClient.switchChain({ id: chain.id })
+      } catch (addError: any) {
+        throw toGoodSDKError(addError, `Failed to add ${chain.name}`)
+      }
+    }
+  }
+
+  /**
+   * Dry-runs the claim flow and reports what `claim()` would do, without
+   * prompting the wallet, sending transactions or touching the faucet throttle.
+   * Checks whitelisting, entitlement, whether a faucet top-up is needed, the
+   * claim gas cost and whether the `claim` call would revert.
+   * Works on read-only instances.
+   * @returns A report with one recommendation per issue found, or a single `claim` recommendation.
+   * @throws If the whitelist or entitlement reads fail.
+   */
+  async preflight(): Promise<ClaimPreflightReport> {
+    const account = this.requireAccount("preflight")
+    const chainId = this.getActiveChainId()
+    const recommendations: ClaimPreflightRecommendation[] = []
+
+    const { isWhitelisted, root } =
+      await this.identitySDK.getWhitelistedRoot(account)
+
+    if (!isWhitelisted) {
+      return {
+        chainId,
+        account,
+        root,
+        isWhitelisted,
+        entitlement: null,
+        nextClaimTime: null,
+        faucet: null,
+        gas: null,
+        simulation: null,
+        ready: false,
+        recommendations: [
+          {
+            action: "verify_identity",
+            message:
+              "This wallet is not whitelisted. Complete face verification before claiming.",
+          },
+        ],
+      }
+    }
+
+    const entitlement = await this.checkEntitlement({ root })
+
+    if (entitlement.amount === 0n) {
+      const nextClaimTime = await this.nextClaimTime(entitlement.amount)
+
+      if (entitlement.altClaimAvailable && entitlement.altChainId) {
+        recommendations.push({
+          action: "switch_chain",
+          message: `Nothing to claim on ${chainConfigs[chainId].label}, but UBI is available on ${chainConfigs[entitlement.altChainId].label}.`,
+          chainId: entitlement.altChainId,
+        })
+      }
+      recommendations.push({
+        action: "wait_for_next_period",
+        message: `UBI for this period is already claimed. The next claim opens at ${nextClaimTime.toISOString()}.`,
+      })
+
+      return {
+        chainId,
+        account,
+        root,
+        isWhitelisted,
+        entitlement,
+        nextClaimTime,
+        faucet: null,
+        gas: null,
+        simulation: null,
+        ready: false,
+        recommendations,
+      }
+    }
+
+    const claimCall = {
+      address: this.ubiSchemeAddress,
+      abi: ubiSchemeV2ABI,
+      functionName: "claim",
+      account,
+    } as const
+
+    const [faucet, simulation, gas] = await Promise.all([
+      this.readFaucetNeed(chainId, account),
+      this.readClient
+        .simulateContract(claimCall)
+        .then(() => ({ ok: true }) as const)
+        .catch((error) => ({
+          ok: false as const,
+          error: toGoodSDKError(
+            error,
+            "Claim simulation failed",
+            "SIMULATION_REVERTED",
+          ),
+        })),
+      Promise.all([
+        this.readClient.estimateContractGas(claimCall),
+        this.readClient
+          .getGasPrice()
+          .catch(() => chainConfigs[chainId].defaultGasPrice ?? 0n),
+      ])
+        .then(([estimate, gasPrice]) => ({
+          estimate,
+          gasPrice,
+          cost: estimate * gasPrice,
+        }))
+        .catch(() => null),
+    ])
+
+    if (faucet?.needed) {
+      recommendations.push(
+        faucet.canTop
+          ? {
+              action: "faucet_top_up",
+              message:
+                "The gas balance is low. claim() will request a faucet top-up first, which may need an extra wallet signature.",
+            }
+          : {
+              action: "fund_wallet",
+              message:
+                "The gas balance is too low and the faucet cannot top up this wallet. Add native funds to pay for the claim.",
+            },
+      )
+    }
+
+    // Without the faucet state or gas cost, a passing simulation does not mean
+    // the wallet can pay for the claim.
+    if (!faucet || (!gas && simulation.ok)) {
+      recommendations.push({
+        action: "check_gas_balance",
+        message:
+          "The gas balance, faucet state or claim gas cost could not be read. Retry the check before claiming.",
+      })
+    }
+
+    if (!simulation.ok) {
+      recommendations.push({
+        action: "resolve_revert",
+        message: `The claim transaction would revert: ${simulation.error.message}`,
+      })
+    }
+
+    const ready = recommendations.every(
+      ({ action }) => action === "faucet_top_up",
+    )
+    if (ready) {
+      recommendations.push({
+        action: "claim",
+        message: "Ready to claim.",
+      })
+    }
+
+    return {
+      chainId,
+      account,
+      root,
+      isWhitelisted,
+      entitlement,
+      nextClaimTime: null,
+      faucet,
+      gas,
+      simulation,
+      ready,
+      recommendations,
+    }
+  }
+
+  /**
+   * Reads the faucet state and applies the same balance threshold as `triggerFaucet`.
+   * @returns The faucet state, or null when it cannot be read.
+   */
+  private async readFaucetNeed(
+    chainId: SupportedChains,
+    account: Address,
+  ): Promise<ClaimPreflightReport["faucet"]> {
+    try {
+      const [balance, canTop, { minTopping, toppingAmount }] =
+        await Promise.all([
+          this.readClient.getBalance({ address: account }),
+          this.readContract<boolean>({
+            address: this.faucetAddress,
+            abi: faucetABI,
+            functionName: "canTop",
+            args: [account],
+          }),
+          this.getFaucetParameters(),
+        ])
+
+      const hasGasBalance =
+        balance >= toppingAmount ||
+        (await hasClaimGasBalance(
+          chainId,
+          account,
+          this.readClient,
+          this.faucetAddress,
+          toppingAmount,
+          minTopping,
+        ))
+
+      return {
+        needed: !hasGasBalance,
+        canTop,
+        balance,
+        toppingAmount,
+        minTopping,
+      }
+    } catch (error) {
+      console.error("preflight faucet check failed:", error)
+      return null
     }
   }
 
@@ -409,47 +1181,74 @@ export class ClaimSDK {
    * 5. If the user cannot claim due to low balance, triggers a faucet request and waits.
    * 6. If whitelisted and can claim, proceeds to call the claim function on the UBIScheme contract.
    * @param txConfirm - Optional callback to confirm transactions before execution.
+   * @param options - Optional `onStep` callback reporting progress for steppers.
    * @returns The transaction receipt if the claim is successful.
-   * @throws If the user is not whitelisted, not entitled to claim, balance check fails, or claim transaction fails.
+   * @throws NotWhitelistedError, AlreadyClaimedError, FaucetError, or the classified transaction error (see `GoodSDKErrorCode`).
    */
   async claim(
     txConfirm?: (message: string) => void | Promise<void>,
+    { onStep }: ClaimOptions = {},
   ): Promise<TransactionReceipt | any> {
-    const userAddress = this.account
+    const walletClient = this.requireWalletClient("claim")
+    const userAddress = this.requireAccount("claim")
+    const chainId = this.getActiveChainId()
+    const emit = (
+      step: ClaimStep,
+      hash?: `0x${string}`,
+      faucet?: FaucetOutcome,
+    ) => onStep?.({ step, chainId, hash, faucet })
 
     // 1. Check whitelisting status
-    const { isWhitelisted } =
+    emit("whitelist")
+    const { isWhitelisted, root } =
       await this.identitySDK.getWhitelistedRoot(userAddress)
     if (!isWhitelisted) {
       await this.fvRedirect()
-      throw new Error("User requires identity verification.")
+      throw new NotWhitelistedError()
     }
 
     // 2. Check if user can claim from UBI pool
-    const entitlementResult = await this.checkEntitlement()
+    emit("entitlement")
+    const entitlementResult = await this.checkEntitlement({ root })
     if (entitlementResult.amount === 0n) {
-      throw new Error("No UBI available to claim for this period.")
+      throw new AlreadyClaimedError()
     }
 
     // 3. Ensure the user has sufficient balance to claim
-    const canClaim = await this.checkBalanceWithRetry(txConfirm)
+    emit("faucet")
+    let faucetOutcome: FaucetOutcome | undefined
+    const canClaim = await this.checkBalanceWithRetry(txConfirm, (outcome) => {
+      faucetOutcome = outcome
+      emit("faucet", undefined, outcome)
+    })
     if (!canClaim) {
-      throw new Error("Failed to meet balance threshold after faucet request.")
+      throw new FaucetError(
+        "Failed to meet balance threshold after faucet request.",
+        { cause: faucetOutcome?.error },
+      )
     }
 
     // 4. Execute the claim transaction
+    emit("simulating")
     try {
-      return await this.submitAndWait({
-        address: this.ubiSchemeAddress,
-        abi: ubiSchemeV2ABI,
-        functionName: "claim",
-        chain: this.walletClient.chain,
-      })
+      let claimHash: `0x${string}` | undefined
+      const receipt = await this.submitAndWait(
+        {
+          address: this.ubiSchemeAddress,
+          abi: ubiSchemeV2ABI,
+          functionName: "claim",
+          chain: walletClient.chain,
+        },
+        (hash) => {
+          claimHash = hash
+          emit("submitted", hash)
+        },
+      )
+      this.cache?.invalidate(chainId)
+      emit("confirmed", claimHash ?? receipt?.transactionHash)
+      return receipt
     } catch (error: any) {
-      if (error instanceof ContractFunctionExecutionError) {
-        throw new Error(`Claim failed: ${error.shortMessage}`)
-      }
-      throw new Error(`Claim failed: ${error.message}`)
+      throw toGoodSDKError(error, "Claim failed", "TRANSACTION_FAILED")
     }
   }
 
@@ -467,7 +1266,8 @@ export class ClaimSDK {
     if (typeof window !== "undefined") {
       window.location.href = fvLink
     } else {
-      throw new Error(
+      throw new GoodSDKError(
+        "UNSUPPORTED_ENVIRONMENT",
         "Face verification redirect is only supported in browser environments.",
       )
     }
@@ -476,34 +1276,159 @@ export class ClaimSDK {
   /**
    * Retrieves the next available claim time for the connected user.
    * Returns epoch time (0) if the user can claim now (entitlement > 0).
+   * The period is computed from the latest block timestamp and the result is
+   * placed on the local clock, so `date - Date.now()` gives the right countdown.
+   * @param entitlement - Entitlement already read on the active chain, to skip reading it again.
    * @returns The timestamp when the user can next claim UBI, or epoch time if can claim now.
    * @throws If unable to fetch the next claim time.
    */
-  async nextClaimTime(): Promise<Date> {
+  async nextClaimTime(entitlement?: bigint): Promise<Date> {
     // Check if user can claim now (entitlement > 0)
-    const entitlementResult = await this.checkEntitlement()
-    if (entitlementResult.amount > 0n) {
+    const amount =
+      entitlement ?? (await this.readChainEntitlement(this.chainId))
+    if (amount > 0n) {
       return new Date(0) // Return epoch time if can claim now
     }
 
-    const [periodStart, currentDay] = await Promise.all([
-      this.readContract<bigint>({
-        address: this.ubiSchemeAddress,
-        abi: ubiSchemeV2ABI,
-        functionName: "periodStart",
-      }),
-      this.readContract<bigint>({
-        address: this.ubiSchemeAddress,
-        abi: ubiSchemeV2ABI,
-        functionName: "currentDay",
+    return toLocalClaimTime(await this.getClaimPeriod())
+  }
+
+  /**
+   * Returns the current UBIScheme claim day, computed from `periodStart` and
+   * the latest block timestamp rather than the local clock.
+   * @returns The period window and the seconds left until the next one opens.
+   * @throws If `periodStart` or the latest block cannot be read.
+   */
+  async getClaimPeriod(): Promise<ClaimPeriod> {
+    return this.readClaimPeriod(this.chainId)
+  }
+
+  private async readClaimPeriod(
+    chainId: SupportedChains,
+    client: PublicClient = this.getChainClient(chainId),
+  ): Promise<ClaimPeriod> {
+    const { ubiContract } = this.getContractsForChain(chainId)
+
+    const [periodStart, block] = await Promise.all([
+      this.readContract<bigint>(
+        {
+          address: ubiContract as Address,
+          abi: ubiSchemeV2ABI,
+          functionName: "periodStart",
+        },
+        chainId,
+        client,
+      ),
+      client.getBlock({ blockTag: "latest" }).catch((error) => {
+        throw toGoodSDKError(
+          error,
+          "Failed to read latest block",
+          "RPC_UNAVAILABLE",
+        )
       }),
     ])
 
-    const periodStartMs = Number(periodStart) * 1000
-    const startRef = new Date(periodStartMs + Number(currentDay) * DAY)
+    const elapsed =
+      block.timestamp > periodStart ? block.timestamp - periodStart : 0n
+    const start = periodStart + (elapsed / DAY_SECONDS) * DAY_SECONDS
+    const end = start + DAY_SECONDS
 
-    const now = new Date()
-    return startRef < now ? new Date(startRef.getTime() + DAY) : startRef
+    return {
+      start: new Date(Number(start) * 1000),
+      end: new Date(Number(end) * 1000),
+      secondsRemaining: Number(end - block.timestamp),
+      blockTimestamp: new Date(Number(block.timestamp) * 1000),
+    }
+  }
+
+  /**
+   * Reads the entitlement of the account's whitelisted root on every configured
+   * chain in parallel. Each chain gets its own timeout, so a slow or failing
+   * RPC is reported in `rpc` instead of delaying the other chains.
+   * @param options - Chains to query and the per-chain timeout.
+   * @returns One entry per chain, in the order queried.
+   * @throws If the whitelisted root cannot be resolved.
+   */
+  async getEntitlementsAllChains(
+    options: GetEntitlementsAllChainsOptions = {},
+  ): Promise<ChainEntitlement[]> {
+    const {
+      chains = Array.from(this.chainContracts.keys()),
+      timeoutMs = DEFAULT_CHAIN_READ_TIMEOUT_MS,
+    } = options
+
+    const root =
+      options.root ??
+      (
+        await this.identitySDK.getWhitelistedRoot(
+          this.requireAccount("getEntitlementsAllChains"),
+        )
+      ).root
+
+    return Promise.all(
+      chains.map((chainId) =>
+        this.readChainEntitlementOverview(chainId, root, timeoutMs),
+      ),
+    )
+  }
+
+  private async readChainEntitlementOverview(
+    chainId: SupportedChains,
+    root: Address,
+    timeoutMs: number,
+  ): Promise<ChainEntitlement> {
+    const startedAt = Date.now()
+
+    try {
+      const { ubiContract } = this.getContractsForChain(chainId)
+      const client = this.getChainClient(chainId)
+      const read = <T>(functionName: string, args?: any[]) =>
+        this.readContract<T>(
+          {
+            address: ubiContract as Address,
+            abi: ubiSchemeV2ABI,
+            functionName,
+            args,
+          },
+          chainId,
+          client,
+        )
+
+      const [amount, claimPeriod] = await withTimeout(
+        Promise.all([
+          read<bigint>("checkEntitlement", [root]),
+          this.readClaimPeriod(chainId, client),
+        ]),
+        timeoutMs,
+        `${chainConfigs[chainId].label} RPC did not respond within ${timeoutMs}ms`,
+      )
+
+      return {
+        chainId,
+        amount,
+        formattedAmount: formatUnits(amount, CHAIN_DECIMALS[chainId]),
+        nextClaimTime:
+          amount > 0n ? new Date(0) : toLocalClaimTime(claimPeriod),
+        claimPeriod,
+        rpc: { healthy: true, latencyMs: Date.now() - startedAt },
+      }
+    } catch (error) {
+      return {
+        chainId,
+        amount: null,
+        formattedAmount: null,
+        nextClaimTime: null,
+        claimPeriod: null,
+        rpc: {
+          healthy: false,
+          latencyMs: Date.now() - startedAt,
+          error: toReadError(
+            error,
+            `Failed to read entitlement on chain ${chainId}`,
+          ),
+        },
+      }
+    }
   }
 
   /**
@@ -520,20 +1445,266 @@ export class ClaimSDK {
     return { claimers, amount }
   }
 
+  /**
+   * Reads `UBIClaimed` events for the account's root identity across chains.
+   * Logs are fetched in block batches with retries; ranges that keep failing are
+   * reported in `failures` instead of failing the whole call.
+   * @param options - Block bounds, chains, batch size and target account.
+   * @returns The claims with block timestamps, oldest first.
+   * @throws If the account's root identity cannot be resolved.
+   */
+  async getClaimHistory(
+    options: GetClaimHistoryOptions = {},
+  ): Promise<ClaimHistory> {
+    const account = options.account ?? this.requireAccount("getClaimHistory")
+    const { root: whitelistedRoot } =
+      await this.identitySDK.getWhitelistedRoot(account)
+    const root = whitelistedRoot === zeroAddress ? account : whitelistedRoot
+
+    const chains = options.chains ?? Array.from(this.chainContracts.keys())
+    const failures: ClaimHistoryFailure[] = []
+
+    const perChain = await Promise.all(
+      chains.map(async (chainId) => {
+        try {
+          return await this.readChainClaimHistory(
+            chainId,
+            root,
+            options,
+            failures,
+          )
+        } catch (error) {
+          failures.push({ chainId, error: extractErrorMessage(error) })
+          return []
+        }
+      }),
+    )
+
+    const claims = perChain
+      .flat()
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    return { root, claims, failures }
+  }
+
+  /**
+   * Computes claim streaks and totals from the account's claim history.
+   * Each claim is bucketed into a UBIScheme day using the `periodStart` of the
+   * chain it was made on; a day counts as claimed when any chain has a claim in it.
+   * Only the scanned range is considered: by default the last
+   * {@link DEFAULT_EVENT_LOOKBACK} blocks of each chain, so pass `fromBlock`
+   * for streaks older than that.
+   * @param options - Same options as `getClaimHistory`.
+   * @returns Streaks, missed days, per-chain totals and the average daily amount.
+   * @throws If the account's root identity or the SDK chain's UBIScheme period cannot be read.
+   */
+  async getClaimerStats(
+    options: GetClaimHistoryOptions = {},
+  ): Promise<ClaimerStats> {
+    const [history, periodStart, currentDayRaw] = await Promise.all([
+      this.getClaimHistory(options),
+      this.readPeriodStart(this.chainId),
+      this.readContract<bigint>({
+        address: this.ubiSchemeAddress,
+        abi: ubiSchemeV2ABI,
+        functionName: "currentDay",
+      }),
+    ])
+
+    const failures = [...history.failures]
+    const periodStarts = new Map([[this.chainId, Number(periodStart) * 1000]])
+    const otherChains = new Set(
+      history.claims
+        .map((claim) => claim.chainId)
+        .filter((chainId) => chainId !== this.chainId),
+    )
+    await Promise.all(
+      Array.from(otherChains).map(async (chainId) => {
+        try {
+          const start = await this.readPeriodStart(chainId)
+          periodStarts.set(chainId, Number(start) * 1000)
+        } catch (error) {
+          failures.push({ chainId, error: extractErrorMessage(error) })
+        }
+      }),
+    )
+
+    // Chains may start their days at different times; key each day by the
+    // calendar day it starts on so claims on different chains line up.
+    const toDayKey = (periodStartMs: number, day: number) =>
+      Math.floor((periodStartMs + day * DAY) / DAY)
+    const currentDay = Number(currentDayRaw)
+    const todayKey = toDayKey(periodStarts.get(this.chainId)!, currentDay)
+
+    const chainTotals = new Map<SupportedChains, ClaimerChainStats>()
+    const claimedDays = new Set<number>()
+
+    for (const claim of history.claims) {
+      const chainPeriodStart = periodStarts.get(claim.chainId)
+      // Without the chain's period the claim still counts towards its totals.
+      if (chainPeriodStart !== undefined) {
+        const day = Math.floor(
+          (claim.timestamp.getTime() - chainPeriodStart) / DAY,
+        )
+        claimedDays.add(toDayKey(chainPeriodStart, day))
+      }
+
+      const stats = chainTotals.get(claim.chainId) ?? {
+        chainId: claim.chainId,
+        claimCount: 0,
+        totalClaimed: 0n,
+        totalClaimedFormatted: 0,
+      }
+      stats.claimCount++
+      stats.totalClaimed += claim.amount
+      chainTotals.set(claim.chainId, stats)
+    }
+
+    const chains = Array.from(chainTotals.values()).map((stats) => ({
+      ...stats,
+      totalClaimedFormatted: Number(
+        formatUnits(stats.totalClaimed, CHAIN_DECIMALS[stats.chainId]),
+      ),
+    }))
+
+    const claimedToday = claimedDays.has(todayKey)
+    const lastClosedDay = claimedToday ? todayKey : todayKey - 1
+
+    let currentStreak = 0
+    while (claimedDays.has(lastClosedDay - currentStreak)) currentStreak++
+
+    const sortedDays = Array.from(claimedDays).sort((a, b) => a - b)
+    let longestStreak = 0
+    let run = 0
+    sortedDays.forEach((day, index) => {
+      run = index > 0 && sortedDays[index - 1] === day - 1 ? run + 1 : 1
+      longestStreak = Math.max(longestStreak, run)
+    })
+
+    const daysClaimed = claimedDays.size
+    const daysMissed = sortedDays.length
+      ? lastClosedDay - sortedDays[0] + 1 - daysClaimed
+      : 0
+    const totalClaimed = chains.reduce(
+      (sum, stats) => sum + stats.totalClaimedFormatted,
+      0,
+    )
+
+    return {
+      root: history.root,
+      currentDay,
+      claimedToday,
+      currentStreak,
+      longestStreak,
+      daysClaimed,
+      daysMissed: Math.max(0, daysMissed),
+      totalClaimed,
+      averageDailyAmount: daysClaimed ? totalClaimed / daysClaimed : 0,
+      chains,
+      failures,
+    }
+  }
+
+  private readPeriodStart(chainId: SupportedChains): Promise<bigint> {
+    return this.readContract<bigint>(
+      {
+        address: this.getContractsForChain(chainId).ubiContract as Address,
+        abi: ubiSchemeV2ABI,
+        functionName: "periodStart",
+      },
+      chainId,
+    )
+  }
+
+  private async readChainClaimHistory(
+    chainId: SupportedChains,
+    root: Address,
+    { fromBlock, toBlock, batchSize }: GetClaimHistoryOptions,
+    failures: ClaimHistoryFailure[],
+  ): Promise<ClaimHistoryEntry[]> {
+    const contracts = this.getContractsForChain(chainId)
+    const client = this.getChainClient(chainId)
+
+    const pickBlock = (value: GetClaimHistoryOptions["fromBlock"]) =>
+      typeof value === "bigint" ? value : value?.[chainId]
+
+    const latestBlock = await client.getBlockNumber()
+    const endBlock = pickBlock(toBlock) ?? latestBlock
+    const defaultStart =
+      endBlock > DEFAULT_EVENT_LOOKBACK ? endBlock - DEFAULT_EVENT_LOOKBACK : 0n
+    const startBlock = pickBlock(fromBlock) ?? defaultStart
+
+    const logs = await fetchInBlockBatches({
+      batchSize: batchSize ?? DEFAULT_EVENT_BATCH_SIZE,
+      fromBlock: startBlock,
+      toBlock: endBlock,
+      promiseCreator: (from, to) =>
+        client.getContractEvents({
+          address: contracts.ubiContract as Address,
+          abi: ubiSchemeV2ABI,
+          eventName: "UBIClaimed",
+          args: { account: root },
+          fromBlock: from,
+          toBlock: to,
+        }),
+      onBatchFailure: (error, range) => {
+        failures.push({
+          chainId,
+          fromBlock: range.from,
+          toBlock: range.to,
+          error: extractErrorMessage(error),
+        })
+      },
+    })
+
+    const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)))
+    const timestamps = new Map<bigint, Date>()
+    await promisePool(
+      blockNumbers.map((blockNumber) => async () => {
+        const block = await client.getBlock({ blockNumber })
+        timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000))
+      }),
+      3,
+    )
+
+    return logs.map((log) => ({
+      chainId,
+      account: log.args.account as Address,
+      amount: log.args.amount as bigint,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber) as Date,
+    }))
+  }
+
+  /**
+   * Returns the public client for a chain: the SDK read client for its own chain,
+   * otherwise the client of the chain's shared RPC pool.
+   */
+  private getChainClient(chainId: SupportedChains): PublicClient {
+    return chainId === this.chainId
+      ? this.readClient
+      : getRpcPool(chainId).client
+  }
+
   /**
    * Triggers a faucet request to top up the user's balance.
    * @param txConfirm - Optional callback to confirm transactions before execution.
-   * @throws If the faucet request fails.
+   * @returns What happened: the path taken, skip reason, tx hash, balances and gas estimate.
+   * @throws FaucetError with the underlying error as `cause` if the faucet request fails.
    *
    * NOTE: Upgraded to contract-first flow:
    *  - Try on-chain faucet call (user signs) via `faucet.topWallet(address)`
    *  - Guard against gas>topping griefing and low native balance for publishing the tx
    *  - If on-chain path fails (or cannot sign/publish), fallback to backend `/verify/topWallet`
-   *  - Throttled to at most once per hour per chain (localStorage)
+   *  - Throttled to at most once per hour per account and chain (`storage` option)
    */
   async triggerFaucet(
     txConfirm?: (message: string) => void | Promise<void>,
-  ): Promise<void> {
+  ): Promise<FaucetOutcome> {
+    const walletClient = this.requireWalletClient("triggerFaucet")
+    const account = this.requireAccount("triggerFaucet")
+
     // Call the txConfirm callback before executing the faucet transaction
     if (txConfirm) {
       const message =
@@ -541,22 +1712,47 @@ export class ClaimSDK {
       await txConfirm(message)
     }
 
-    // Delegate to shared utility to keep SDK lean while preserving this docstring.
+    const outcome = await this.requestTopUp(walletClient, account)
+
+    if (outcome.result === "error") {
+      throw new FaucetError(outcome.error?.message, { cause: outcome.error })
+    }
+    return outcome
+  }
+
+  /**
+   * Runs the shared faucet utility on the active chain and drops cached reads
+   * of that chain after a top-up.
+   */
+  private async requestTopUp(
+    walletClient: WalletClient<any, Chain | undefined, Account | undefined>,
+    account: Address,
+  ): Promise<FaucetOutcome> {
     const chainId = this.getActiveChainId()
-    const result = await triggerFaucetUtil({
+    // Only the wait settings: the caller's hooks track their own transactions,
+    // not gas top-ups sent on their behalf.
+    const { confirmations, timeoutMs, pollingIntervalMs } =
+      this.transactionOptions ?? {}
+    const outcome = await triggerFaucetUtil({
       chainId,
-      account: this.account,
-      publicClient: this.publicClient,
-      walletClient: this.walletClient,
+      account,
+      publicClient: this.getChainClient(chainId),
+      walletClient,
       faucetAddress: this.faucetAddress,
       env: this.env,
       throttleMs: 60 * 60 * 1000, // 1 hour
+      storage: this.storage,
+      send: (request) => this.sendRequest(walletClient, request),
+      transactionOptions: { confirmations, timeoutMs, pollingIntervalMs },
     })
 
-    // Optional: you can surface `result` to UI via an event/callback if desired.
-    if (result === "error") {
-      throw new Error("Faucet request failed")
+    if (
+      outcome.result === "topped_via_contract" ||
+      outcome.result === "topped_via_api"
+    ) {
+      this.cache?.invalidate(chainId)
     }
+    return outcome
   }
 
   /**
@@ -586,12 +1782,16 @@ export class ClaimSDK {
   /**
    * Checks the user's balance with retries, triggering a faucet request if needed.
    * @param txConfirm - Optional callback to confirm transactions before execution.
+   * @param onOutcome - Optional callback receiving the outcome of each faucet attempt.
    * @returns True if the balance meets the threshold, false otherwise.
    * @throws If the maximum retries are exceeded or faucet request fails.
    */
   async checkBalanceWithRetry(
     txConfirm?: (message: string) => void | Promise<void>,
+    onOutcome?: (outcome: FaucetOutcome) => void,
   ): Promise<boolean> {
+    const walletClient = this.requireWalletClient("checkBalanceWithRetry")
+    const account = this.requireAccount("checkBalanceWithRetry")
     const maxRetries = 5
     const retryDelay = 5000
 
@@ -603,16 +1803,9 @@ export class ClaimSDK {
         await txConfirm(message)
       }
 
-      const chainId = this.getActiveChainId()
-      const result = await triggerFaucetUtil({
-        chainId,
-        account: this.account,
-        publicClient: this.publicClient,
-        walletClient: this.walletClient,
-        faucetAddress: this.faucetAddress,
-        env: this.env,
-        throttleMs: 60 * 60 * 1000, // 1 hour
-      })
+      const outcome = await this.requestTopUp(walletClient, account)
+      onOutcome?.(outcome)
+      const { result } = outcome
 
       // "skipped" means balance is sufficient or already topped recently
       if (result === "skipped") return true
@@ -3,105 +3,117 @@ import {
     type Address,
     type Chain,
     type PublicClient,
-    type SimulateContractParameters,
     type WalletClient,
     type LocalAccount,
     ContractFunctionExecutionError,
-    TransactionReceipt,
 } from "viem"
 
-import { waitForTransactionReceipt } from "viem/actions"
 import { ClaimSDK, type ClaimSDKOptions } from "./viem-claim-sdk" // Import the base ClaimSDK
+import type { SimulatedRequest } from "../utils/transactions"
+import { getDefaultNonceManager, type NonceManager } from "../utils/nonceManager"
 import type { WalletClaimStatus } from "../types"
+import {
+    GoodSDKError,
+    InsufficientFundsError,
+    MissingAccountError,
+    toGoodSDKError,
+} from "../errors"
 
-interface ClaimCustodialSDKOptions extends Omit<ClaimSDKOptions, 'account'> {
+interface ClaimCustodialSDKOptions extends Omit<ClaimSDKOptions, 'account' | 'walletClient'> {
     // Remove account from the options since we'll get it from walletClient
+    walletClient: NonNullable<ClaimSDKOptions['walletClient']>
+    /** Nonces for locally signed transactions. Defaults to the process-wide in-memory manager. */
+    nonceManager?: NonceManager
 }
 
 export class ClaimCustodialSDK extends ClaimSDK {
-    constructor(options: ClaimCustodialSDKOptions) {
+    private readonly nonceManager: NonceManager
+
+    constructor({ nonceManager = getDefaultNonceManager(), ...options }: ClaimCustodialSDKOptions) {
         // Get account from walletClient and pass to parent constructor
         const account = options.walletClient.account?.address
         if (!account) {
-            throw new Error("ClaimCustodialSDK: WalletClient must have an account attached.")
+            throw new MissingAccountError("ClaimCustodialSDK: WalletClient must have an account attached.")
         }
         
         super({
             ...options,
             account,
         })
+        this.nonceManager = nonceManager
+    }
+
+    /**
+     * Override cloneForChain so cross-chain claims keep using the configured nonce manager.
+     * @param options - Options bound to the target chain.
+     */
+    protected cloneForChain(options: ClaimSDKOptions): ClaimSDK {
+        return new ClaimCustodialSDK({
+            ...options,
+            walletClient: options.walletClient!,
+            nonceManager: this.nonceManager,
+        })
     }
 
 
 
     /**
-     * Override submitAndWait to handle LocalAccount signing for Celo RPC compatibility
-     * Submits a transaction and waits for its receipt.
-     * @param params - Parameters for simulating the contract call.
-     * @param onHash - Optional callback to receive the transaction hash.
-     * @returns The transaction receipt.
-     * @throws If submission fails or no active wallet address is found.
+     * Override sendRequest to handle LocalAccount signing for Celo RPC compatibility.
+     * Nonces come from the nonce manager, so concurrent sends from one wallet don't collide.
+     * Simulation, confirmations and revert decoding are handled by the base submitAndWait.
+     * @param walletClient - The wallet client holding the account.
+     * @param request - The simulated contract request.
+     * @returns The transaction hash.
+     * @throws If signing or broadcasting fails.
      */
-    async submitAndWait(
-        params: SimulateContractParameters,
-        onHash?: (hash: `0x${string}`) => void,
-    ): Promise<TransactionReceipt> {
-        const account = this.walletClient.account
+    protected async sendRequest(
+        walletClient: WalletClient<any, Chain | undefined, Account | undefined>,
+        request: SimulatedRequest,
+    ): Promise<`0x${string}`> {
+        const account = walletClient.account
         if (!account?.address) {
-            throw new Error("No active wallet address found.")
+            throw new MissingAccountError()
         }
 
-        // Simulate the contract call to get the transaction request
-        const { request } = await this.publicClient.simulateContract({
-            account: account.address,
-            ...params,
-        })
-
         // For LocalAccount, we need to sign locally and send raw transaction
         // to avoid Celo RPC's eth_sendTransaction restriction
         try {
-            let hash: `0x${string}`
-
             if (account && 'signTransaction' in account) {
                 // LocalAccount - sign locally and send raw transaction
                 console.log('Using LocalAccount - signing transaction locally')
 
-                // Prepare the transaction request with proper gas estimation
-                const preparedRequest: any = await this.walletClient.prepareTransactionRequest({
-                    account: account.address,
-                    // @ts-ignore
-                    to: request.to,
-                    // @ts-ignore
-                    data: request.data,
-                    value: request.value || 0n,
-                    gas: request.gas,
-                    gasPrice: request.gasPrice,
-                    maxFeePerGas: request.maxFeePerGas,
-                    maxPriorityFeePerGas: request.maxPriorityFeePerGas,
-                } as any)
-
-                // Sign the transaction locally using the LocalAccount
-                const signedTransaction = await (account as LocalAccount).signTransaction(preparedRequest)
-
-                // Send the raw signed transaction to the network
-                hash = await this.publicClient.sendRawTransaction({
-                    serializedTransaction: signedTransaction
-                })
-            } else {
-                // Fallback to regular writeContract (may fail on Celo RPC)
-                console.log('Fallback to writeContract - may fail on Celo RPC')
-                hash = await this.walletClient.writeContract(request)
+                return await this.nonceManager.send(
+                    { address: account.address, client: this.readClient },
+                    async (nonce) => {
+                        // Prepare the transaction request with proper gas estimation
+                        const preparedRequest: any = await walletClient.prepareTransactionRequest({
+                            account: account.address,
+                            // @ts-ignore
+                            to: request.to,
+                            // @ts-ignore
+                            data: request.data,
+                            value: request.value || 0n,
+                            gas: request.gas,
+                            gasPrice: request.gasPrice,
+                            maxFeePerGas: request.maxFeePerGas,
+                            maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+                            nonce,
+                        } as any)
+
+                        // Sign the transaction locally using the LocalAccount
+                        const signedTransaction = await (account as LocalAccount).signTransaction(preparedRequest)
+
+                        // Send the raw signed transaction to the network
+                        return this.publicClient.sendRawTransaction({
+                            serializedTransaction: signedTransaction
+                        })
+                    },
+                )
             }
 
-            onHash?.(hash)
-
-            // Wait one block to prevent immediate errors
-            await new Promise((res) => setTimeout(res, 5000))
-
-            return waitForTransactionReceipt(this.publicClient as any, {
-                hash,
-                retryDelay: 5000,
-            })
+            // Fallback to regular writeContract (may fail on Celo RPC)
+            console.log('Fallback to writeContract - may fail on Celo RPC')
+            return await walletClient.writeContract(request)
         } catch (error: any) {
             console.error('Transaction submission failed:', error)
 
@@ -109,24 +121,26 @@ export class ClaimCustodialSDK extends ClaimSDK {
             if (error.message?.includes('rpc method is not whitelisted') ||
                 error.message?.includes('eth_sendTransaction') ||
                 error.code === -32601) {
-                throw new Error(
+                throw new GoodSDKError(
+                    "TRANSACTION_FAILED",
                     'Transaction failed: Celo RPC does not support eth_sendTransaction. ' +
                     'This error occurs when the LocalAccount is not properly set up. ' +
-                    'Ensure you are using privateKeyToAccount() and the account is attached to walletClient.'
+                    'Ensure you are using privateKeyToAccount() and the account is attached to walletClient.',
+                    { cause: error }
                 )
             }
 
             // Handle other transaction errors
             if (error.message?.includes('insufficient funds')) {
-                throw new Error('Transaction failed: Insufficient funds for gas fees.')
+                throw new InsufficientFundsError('Transaction failed: Insufficient funds for gas fees.', { cause: error })
             }
 
             if (error.message?.includes('nonce')) {
-                throw new Error('Transaction failed: Nonce error. Please try again.')
+                throw new GoodSDKError("NONCE_ERROR", 'Transaction failed: Nonce error. Please try again.', { cause: error })
             }
 
             // Generic error
-            throw new Error(`Transaction submission failed: ${error.message}`)
+            throw toGoodSDKError(error, "Transaction submission failed", "TRANSACTION_FAILED")
         }
     }
 }
\ No newline at end of file
@@ -1,126 +1,77 @@
 import {
+    type Account,
     Address,
+    type Chain,
     PublicClient,
     WalletClient,
-    SimulateContractParameters,
     WalletActions,
     LocalAccount,
 } from "viem"
-import { waitForTransactionReceipt } from "viem/actions"
-import { compressToEncodedURIComponent } from "lz-string"
 
-import { IdentitySDK } from "./viem-identity-sdk" // Import the base IdentitySDK
-import { Envs, FV_IDENTIFIER_MSG2 } from "../constants"
+import { IdentitySDK, type IdentitySDKOptions } from "./viem-identity-sdk" // Import the base IdentitySDK
+import { FV_IDENTIFIER_MSG2 } from "../constants"
+import { toGoodSDKError } from "../errors"
+import { getDefaultNonceManager, type NonceManager } from "../utils/nonceManager"
+import type { SimulatedRequest } from "../utils/transactions"
+
+export interface IdentityCustodialSDKOptions extends IdentitySDKOptions {
+    /** Nonces for locally signed transactions. Defaults to the process-wide in-memory manager. */
+    nonceManager?: NonceManager
+}
 
 /**
  * Custodial version of IdentitySDK that handles LocalAccount signing for Celo RPC compatibility
  */
 export class IdentityCustodialSDK extends IdentitySDK {
-    /**
-     * Override submitAndWait to handle account retrieval differently for custodial wallets
-     * @param params - Parameters for simulating the contract call.
-     * @param onHash - Optional callback to receive the transaction hash.
-     * @returns The transaction receipt.
-     * @throws If submission fails or no active wallet address is found.
-     */
-    async submitAndWait(
-        params: SimulateContractParameters,
-        onHash?: (hash: `0x${string}`) => void,
-    ): Promise<any> {
-        try {
-            const account = this.walletClient.account?.address
-
-            if (!account) throw new Error("No active wallet address found.")
+    private readonly nonceManager: NonceManager
 
-            const { request } = await this.publicClient.simulateContract({
-                account,
-                ...params,
-            })
-
-            const hash = await this.walletClient.writeContract(request)
-            onHash?.(hash)
-
-            return waitForTransactionReceipt(this.publicClient as any, { hash })
-        } catch (error: any) {
-            console.error("submitAndWait Error:", error)
-            throw new Error(`Failed to submit transaction: ${error.message}`)
-        }
+    constructor({ nonceManager = getDefaultNonceManager(), ...options }: IdentityCustodialSDKOptions) {
+        super(options)
+        this.nonceManager = nonceManager
     }
 
     /**
-     * Override generateFVLink to handle LocalAccount message signing for Celo RPC compatibility
-     * @param popupMode - Whether to generate a popup link.
-     * @param callbackUrl - The URL to callback after verification.
-     * @param chainId - The blockchain network ID.
-     * @returns The generated Face Verification link.
+     * Override sendRequest to take nonces for LocalAccount transactions from the nonce manager,
+     * so concurrent sends from one wallet don't collide.
+     * @param walletClient - The wallet client holding the account.
+     * @param request - The simulated contract request.
+     * @returns The transaction hash.
      */
-    async generateFVLink(
-        popupMode: boolean = false,
-        callbackUrl?: string,
-        chainId?: number,
-    ): Promise<string> {
-        try {
-            const account = this.walletClient.account
-            if (!account?.address) throw new Error("No wallet address found.")
-
-            const nonce = Math.floor(Date.now() / 1000).toString()
-            const fvSigMessage = FV_IDENTIFIER_MSG2.replace("<account>", account.address)
-
-            // For self-provisioned wallets, sign locally to avoid Celo RPC limitations
-            let fvSig: string;
-
-            if ('signMessage' in account) {
-                // Local account - sign directly
-                fvSig = await (account as LocalAccount).signMessage({
-                    message: fvSigMessage,
-                })
-            } else {
-                // Fallback to wallet client signing (might fail on Celo RPC)
-                try {
-                    fvSig = await this.walletClient.signMessage({
-                        account: account.address,
-                        message: fvSigMessage,
-                    })
-                } catch (rpcError: any) {
-                    throw new Error(`Message signing failed: Celo RPC doesn't support personal_sign. Use a local account instead. ${rpcError.message}`)
-                }
-            }
-
-            const { identityUrl } = Envs[this.env]
-            if (!identityUrl) {
-                throw new Error("identityUrl is not defined in environment settings.")
-            }
-
-            if (!fvSig) {
-                throw new Error("Missing signature for Face Verification.")
-            }
+    protected sendRequest(
+        walletClient: WalletClient<any, Chain | undefined, Account | undefined>,
+        request: SimulatedRequest,
+    ): Promise<`0x${string}`> {
+        const account = walletClient.account
+        if (!account || !('signTransaction' in account)) {
+            return walletClient.writeContract(request)
+        }
 
-            if (!popupMode && !callbackUrl) {
-                throw new Error("Callback URL is required for redirect mode.")
-            }
+        return this.nonceManager.send(
+            { address: account.address, client: this.readClient },
+            (nonce) => walletClient.writeContract({ ...request, nonce }),
+        )
+    }
 
-            const url = new URL(identityUrl)
-            const params: Record<string, string | number> = {
-                account: account.address,
-                nonce,
-                fvsig: fvSig,
-                chain: chainId || (await this.publicClient.getChainId()),
-            }
+    /**
+     * Override getFVSig to sign the FV identifier with LocalAccounts directly, since Celo RPCs
+     * don't support personal_sign. Links, callback nonces and return state come from the base SDK.
+     * @param method - The calling method, named in errors.
+     * @returns The FV identifier signature.
+     */
+    protected async getFVSig(method: string): Promise<`0x${string}`> {
+        const account = this.requireWalletClient(method).account
 
-            if (callbackUrl) {
-                params[popupMode ? "cbu" : "rdu"] = callbackUrl
-            }
+        if (account && 'signMessage' in account) {
+            return (account as LocalAccount).signMessage({
+                message: FV_IDENTIFIER_MSG2.replace("<account>", account.address),
+            })
+        }
 
-            url.searchParams.append(
-                "lz",
-                compressToEncodedURIComponent(JSON.stringify(params)),
-            )
-            return url.toString()
-        } catch (error: any) {
-            console.error("generateFVLink Error:", error)
-            throw new Error(
-                `Failed to generate Face Verification link: ${error.message}`,
-            )
+        // Fallback to wallet client signing (might fail on Celo RPC)
+        try {
+            return await super.getFVSig(method)
+        } catch (rpcError: any) {
+            throw toGoodSDKError(rpcError, "Message signing failed: Celo RPC doesn't support personal_sign. Use a local account instead")
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { type Address, keccak256, toHex, type TransactionReceipt } from "viem"
+
+import { IdentitySDK, type IdentitySDKOptions } from "./viem-identity-sdk"
+import { identityV2ABI } from "../constants"
+import {
+  GoodSDKError,
+  type GoodSDKErrorCode,
+  TransactionFailedError,
+  toGoodSDKError,
+} from "../errors"
+
+export const IDENTITY_ADMIN_ROLE = keccak256(toHex("identity_admin"))
+
+export interface IdentityAdminSDKOptions extends Omit<
+  IdentitySDKOptions,
+  "walletClient" | "chainId"
+> {
+  walletClient: NonNullable<IdentitySDKOptions["walletClient"]>
+  /** Admin operations are refused on production unless explicitly allowed. */
+  allowProduction?: boolean
+}
+
+export interface WhitelistBatchResult {
+  account: Address
+  status: "success" | "skipped" | "failed"
+  txHash?: `0x${string}`
+  error?: string
+  /** Code of the SDK error that failed the transaction. */
+  code?: GoodSDKErrorCode
+}
+
+export interface WhitelistBatchOptions {
+  onHash?: (account: Address, hash: `0x${string}`) => void
+  onProgress?: (result: WhitelistBatchResult, index: number) => void
+}
+
+/**
+ * Identity admin operations (whitelisting test accounts) for operators holding
+ * the identity admin role. Intended for development and staging fixtures.
+ */
+export class IdentityAdminSDK extends IdentitySDK {
+  private hasRoleChecked = false
+
+  constructor({
+    allowProduction = false,
+    ...options
+  }: IdentityAdminSDKOptions) {
+    if (options.env === "production" && !allowProduction) {
+      throw new GoodSDKError(
+        "UNAUTHORIZED",
+        'IdentityAdminSDK: admin operations on "production" require allowProduction: true.',
+      )
+    }
+    super(options)
+  }
+
+  static async init(
+    props: Omit<IdentityAdminSDKOptions, "account">,
+  ): Promise<IdentityAdminSDK> {
+    const [account] = await props.walletClient.getAddresses()
+    return new IdentityAdminSDK({ account, ...props })
+  }
+
+  /**
+   * Checks whether an account holds the identity admin role.
+   * @param account - The account to check. Defaults to the SDK account.
+   * @returns True if the account can whitelist and remove identities.
+   */
+  async hasAdminRole(account?: Address): Promise<boolean> {
+    const target = account ?? this.requireAccount("hasAdminRole")
+    return this.readClient.readContract({
+      address: this.contract.contractAddress,
+      abi: identityV2ABI,
+      functionName: "hasRole",
+      args: [IDENTITY_ADMIN_ROLE, target],
+    })
+  }
+
+  /**
+   * Whitelists an account.
+   * @param account - The account to whitelist.
+   * @param onHash - Optional callback to receive the transaction hash.
+   * @returns The transaction receipt.
+   * @throws If the SDK account lacks the admin role or the transaction fails.
+   */
+  async addWhitelisted(
+    account: Address,
+    onHash?: (hash: `0x${string}`) => void,
+  ): Promise<TransactionReceipt> {
+    await this.assertAdminRole()
+    return this.submitAndWait(
+      {
+        address: this.contract.contractAddress,
+        abi: identityV2ABI,
+        functionName: "addWhitelisted",
+        args: [account],
+        chain: this.walletClient?.chain,
+      },
+      onHash,
+    )
+  }
+
+  /**
+   * Removes an account from the whitelist.
+   * @param account - The account to remove.
+   * @param onHash - Optional callback to receive the transaction hash.
+   * @returns The transaction receipt.
+   * @throws If the SDK account lacks the admin role or the transaction fails.
+   */
+  async removeWhitelisted(
+    account: Address,
+    onHash?: (hash: `0x${string}`) => void,
+  ): Promise<TransactionReceipt> {
+    await this.assertAdminRole()
+    return this.submitAndWait(
+      {
+        address: this.contract.contractAddress,
+        abi: identityV2ABI,
+        functionName: "removeWhitelisted",
+        args: [account],
+        chain: this.walletClient?.chain,
+      },
+      onHash,
+    )
+  }
+
+  /**
+   * Whitelists several accounts one transaction at a time.
+   * Accounts that are already whitelisted are skipped; failures do not stop the batch.
+   * @param accounts - The accounts to whitelist.
+   * @param options - Optional hash and progress callbacks.
+   * @returns One result per unique account, in input order.
+   */
+  async batchAddWhitelisted(
+    accounts: Address[],
+    options: WhitelistBatchOptions = {},
+  ): Promise<WhitelistBatchResult[]> {
+    return this.runBatch(accounts, true, options)
+  }
+
+  /**
+   * Removes several accounts from the whitelist one transaction at a time.
+   * Accounts that are not whitelisted are skipped; failures do not stop the batch.
+   * @param accounts - The accounts to remove.
+   * @param options - Optional hash and progress callbacks.
+   * @returns One result per unique account, in input order.
+   */
+  async batchRemoveWhitelisted(
+    accounts: Address[],
+    options: WhitelistBatchOptions = {},
+  ): Promise<WhitelistBatchResult[]> {
+    return this.runBatch(accounts, false, options)
+  }
+
+  private async runBatch(
+    accounts: Address[],
+    whitelist: boolean,
+    { onHash, onProgress }: WhitelistBatchOptions,
+  ): Promise<WhitelistBatchResult[]> {
+    await this.assertAdminRole()
+
+    const uniqueAccounts = Array.from(new Set(accounts))
+    const current = await this.getWhitelistedRoots(uniqueAccounts)
+    const results: WhitelistBatchResult[] = []
+
+    // Sequential on purpose: every transaction comes from the same sender nonce.
+    for (const [index, account] of uniqueAccounts.entries()) {
+      const state = current.get(account)
+      // A connected account resolves to its root, so only exact matches count as whitelisted.
+      const isWhitelisted =
+        state?.status === "success" &&
+        state.root.toLowerCase() === account.toLowerCase()
+
+      let result: WhitelistBatchResult
+      if (state?.status === "success" && isWhitelisted === whitelist) {
+        result = { account, status: "skipped" }
+      } else {
+        let txHash: `0x${string}` | undefined
+        const handleHash = (hash: `0x${string}`) => {
+          txHash = hash
+          onHash?.(account, hash)
+        }
+        try {
+          if (whitelist) {
+            await this.addWhitelisted(account, handleHash)
+          } else {
+            await this.removeWhitelisted(account, handleHash)
+          }
+          result = { account, status: "success", txHash }
+        } catch (error) {
+          // Reverted, cancelled and unconfirmed transactions all throw.
+          const sdkError = toGoodSDKError(error, "Whitelist transaction failed")
+          result = {
+            account,
+            status: "failed",
+            txHash:
+              sdkError instanceof TransactionFailedError
+                ? sdkError.hash
+                : txHash,
+            error: sdkError.message,
+            code: sdkError.code,
+          }
+        }
+      }
+
+      results.push(result)
+      onProgress?.(result, index)
+    }
+
+    return results
+  }
+
+  private async assertAdminRole(): Promise<void> {
+    if (this.hasRoleChecked) return
+
+    const account = this.requireAccount("assertAdminRole")
+    if (!(await this.hasAdminRole(account))) {
+      throw new GoodSDKError(
+        "UNAUTHORIZED",
+        `IdentityAdminSDK: ${account} does not have the identity admin role.`,
+      )
+    }
+    this.hasRoleChecked = true
+  }
+}
@@ -5,24 +5,67 @@ import {
   PublicClient,
   WalletClient,
   SimulateContractParameters,
+  type TransactionReceipt,
   WalletActions,
   zeroAddress,
 } from "viem"
 
-import { waitForTransactionReceipt } from "viem/actions"
 import { compressToEncodedURIComponent } from "lz-string"
 
 import {
   contractEnv,
+  ContractOverrides,
   chainConfigs,
   Envs,
   FV_IDENTIFIER_MSG2,
   identityV2ABI,
   SupportedChains,
+  SUPPORTED_CHAIN_IDS,
   isSupportedChain,
 } from "../constants"
 
-import { resolveChainAndContract } from "../utils/chains"
+import {
+  GoodSDKError,
+  GoodServerError,
+  MissingAccountError,
+  MissingConfigurationError,
+  NotWhitelistedError,
+  ReadOnlySDKError,
+  toGoodSDKError,
+  toReadError,
+} from "../errors"
+import { GoodServerClient } from "./good-server-client"
+import { getChainContracts, resolveChainAndContract } from "../utils/chains"
+import {
+  appendFVNonce,
+  createFVCallbackNonce,
+  parseFVCallback,
+  savePendingFVRequest,
+  stripFVCallbackParams,
+  type FVCallbackResult,
+} from "../utils/fvCallback"
+import { openFVPopup, waitForFVPopup } from "../utils/popup"
+import {
+  DEFAULT_EVENT_BATCH_SIZE,
+  DEFAULT_MULTICALL_CHUNK_SIZE,
+  DEFAULT_MULTICALL_CONCURRENCY,
+  chunk,
+  fetchInBlockBatches,
+  promisePool,
+} from "../utils/rpc"
+import type { ReadCache } from "../utils/readCache"
+import { extractErrorMessage, getRpcPool, type RpcPool } from "../utils/rpcPool"
+import {
+  mergeTransactionOptions,
+  submitTransaction,
+  type SimulatedRequest,
+  type TransactionOptions,
+} from "../utils/transactions"
+
+export type {
+  FVCallbackInvalidReason,
+  FVCallbackResult,
+} from "../utils/fvCallback"
 
 import type {
   IdentityContract,
@@ -47,92 +90,346 @@ export const initializeIdentityContract = (
 export interface IdentitySDKOptions {
   account?: Address
   publicClient: PublicClient
-  walletClient: WalletClient<any, Chain | undefined, Account | undefined>
+  /** Omit to create a read-only instance; write methods then throw {@link ReadOnlySDKError}. */
+  walletClient?: WalletClient<any, Chain | undefined, Account | undefined>
+  /** Chain to bind to in read-only mode. Defaults to the public client chain. */
+  chainId?: SupportedChains
   env: contractEnv
+  /** Contract addresses to use instead of the registry, per chain. */
+  contracts?: ContractOverrides
+  /**
+   * Pool serving reads on the bound chain. Defaults to the chain's shared pool;
+   * `false` reads through `publicClient`. Other chains always use their shared pool.
+   */
+  rpcPool?: RpcPool | false
+  /** Opt-in read cache (see `createReadCache`), shared with ClaimSDK. */
+  cache?: ReadCache
+  /** Confirmations, timeout and lifecycle hooks applied to every transaction. */
+  transactions?: TransactionOptions
+}
+
+export interface IdentitySDKReadOnlyOptions {
+  publicClient: PublicClient
+  chainId?: SupportedChains
+  env?: contractEnv
+  /** Optional address the instance reads on behalf of. */
+  account?: Address
+  /** Contract addresses to use instead of the registry, per chain. */
+  contracts?: ContractOverrides
+  /** See {@link IdentitySDKOptions.rpcPool}. */
+  rpcPool?: RpcPool | false
+  /** See {@link IdentitySDKOptions.cache}. */
+  cache?: ReadCache
+}
+
+export interface VerifyInPopupOptions {
+  /** Optional `cbu` passed to GoodID, notified by the identity app on completion. */
+  callbackUrl?: string
+  chainId?: number
+  /** `window.open` features string for the popup. */
+  popupFeatures?: string
+  /** Gives up waiting for the popup after this long. Defaults to 15 minutes. */
+  timeoutMs?: number
+}
+
+export type FVPopupResult =
+  | { status: "verified"; root: Address }
+  | { status: "failed"; reason?: string }
+  | { status: "closed" }
+  | { status: "popup_blocked" }
+  | { status: "timeout" }
+
+export const DEFAULT_EXPIRING_SOON_DAYS = 14
+
+const DAY = 1000 * 60 * 60 * 24
+
+interface IdentityStatusBase {
+  account: Address
+  /** Root identity the account resolves to (the account itself when not connected). */
+  root: Address
+}
+
+interface IdentityStatusWithExpiry extends IdentityStatusBase {
+  /** Null when the identity has no authentication timestamp (no expiry). */
+  expiryDate: Date | null
+  daysRemaining: number | null
+}
+
+export type IdentityStatus =
+  | (IdentityStatusBase & { status: "unverified"; fvLink?: string })
+  | (IdentityStatusWithExpiry & { status: "active" })
+  | (IdentityStatusWithExpiry & { status: "expiring_soon"; fvLink?: string })
+  | (IdentityStatusWithExpiry & { status: "expired"; fvLink?: string })
+
+export interface GetIdentityStatusOptions {
+  /** Days before expiry from which the identity is reported as "expiring_soon". */
+  expiringSoonDays?: number
+  /**
+   * When set, a re-verification link is generated for unverified, expiring or
+   * expired identities. Requires a wallet client and prompts for a signature.
+   */
+  fvLink?: {
+    popupMode?: boolean
+    callbackUrl?: string
+    chainId?: number
+  }
+}
+
+export interface ChainIdentityReport {
+  chainId: SupportedChains
+  label: string
+  /** False when every configured RPC failed for this chain. */
+  ok: boolean
+  isWhitelisted: boolean
+  root: Address
+  lastAuthenticated: bigint
+  authPeriod: bigint
+  expiryDate: Date | null
+  /** True when the identity is known on another chain but missing or outdated here. */
+  notPropagated: boolean
+  error?: string
+}
+
+export interface IdentityOverview {
+  account: Address
+  isWhitelistedAnywhere: boolean
+  chains: ChainIdentityReport[]
+  /** Chains where the identity has not yet propagated. */
+  notPropagatedChains: SupportedChains[]
+}
+
+export interface GetWhitelistedRootsOptions {
+  /** Addresses per multicall. Defaults to {@link DEFAULT_MULTICALL_CHUNK_SIZE}. */
+  chunkSize?: number
+  /** Multicalls in flight at once. Defaults to {@link DEFAULT_MULTICALL_CONCURRENCY}. */
+  concurrency?: number
+}
+
+export type WhitelistedRootResult =
+  | { status: "success"; isWhitelisted: boolean; root: Address }
+  | { status: "failure"; error: string }
+
+export type FaceRecordDeletionResult =
+  | { status: "deleted"; account: Address }
+  | { status: "not_found"; account: Address }
+  | { status: "failed"; account: Address; error: string }
+
+export interface ListConnectedAccountsOptions {
+  /**
+   * First block to scan. Defaults to the `identityDeploymentBlock` configured
+   * for the chain and env; required when none is configured.
+   */
+  fromBlock?: bigint
+  /** Last block to scan. Defaults to the latest block. */
+  toBlock?: bigint
+  /** Blocks per `eth_getLogs` request. Defaults to {@link DEFAULT_EVENT_BATCH_SIZE}. */
+  batchSize?: bigint
 }
 
 /**
  * Handles interactions with the Identity Contract.
  */
 export class IdentitySDK {
-  public account: Address
+  public account?: Address
   publicClient: PublicClient
-  walletClient: WalletClient & WalletActions
+  /** Client used for reads: the RPC pool of the bound chain, unless disabled. */
+  protected readonly readClient: PublicClient
+  /** Read cache used for `getWhitelistedRoot`, when enabled. */
+  readonly cache?: ReadCache
+  walletClient?: WalletClient & WalletActions
   public contract: IdentityContract
   public env: contractEnv = "production"
-  private readonly chainId: SupportedChains
+  public readonly isReadOnly: boolean
+  protected readonly chainId: SupportedChains
   private readonly fvDefaultChain: SupportedChains
+  private readonly contractOverrides?: ContractOverrides
+  private readonly identityDeploymentBlock?: bigint
+  private readonly transactionOptions?: TransactionOptions
+  private fvSig?: `0x${string}`
+  private goodServerClient?: GoodServerClient
 
   /**
    * Initializes the IdentitySDK.
    * @param publicClient - The PublicClient instance.
-   * @param walletClient - The WalletClient with WalletActions.
+   * @param walletClient - The WalletClient with WalletActions. Omit for read-only mode.
+   * @param chainId - Chain to bind to when no wallet client is provided.
    * @param env - The environment to use ("production" | "staging" | "development").
    */
   constructor({
     account,
     publicClient,
     walletClient,
+    chainId: chainOverride,
     env,
+    contracts,
+    rpcPool,
+    cache,
+    transactions,
   }: IdentitySDKOptions) {
-    if (!walletClient.account) {
-      throw new Error(
+    if (walletClient && !walletClient.account) {
+      throw new MissingAccountError(
         "IdentitySDK: WalletClient must have an account attached.",
       )
     }
     this.publicClient = publicClient
     this.walletClient = walletClient
+    this.isReadOnly = !walletClient
     this.env = env
-    this.account = account ?? walletClient.account.address
+    this.account = account ?? walletClient?.account?.address
+    this.contractOverrides = contracts
+    this.cache = cache
+    this.transactionOptions = transactions
 
     const { chainId, contractEnvAddresses } = resolveChainAndContract(
-      walletClient,
+      walletClient
+        ? walletClient.chain?.id
+        : (chainOverride ?? publicClient.chain?.id),
       env,
+      contracts,
     )
 
     this.chainId = chainId
     this.fvDefaultChain = chainConfigs[chainId]?.fvDefaultChain ?? chainId
+    this.readClient =
+      rpcPool === false ? publicClient : (rpcPool ?? getRpcPool(chainId)).client
 
     this.contract = initializeIdentityContract(
-      this.publicClient,
+      this.readClient,
       contractEnvAddresses.identityContract,
     )
+    this.identityDeploymentBlock = contractEnvAddresses.identityDeploymentBlock
   }
 
   static async init(
-    props: Omit<IdentitySDKOptions, "account">,
+    props: Omit<IdentitySDKOptions, "account" | "chainId"> &
+      Required<Pick<IdentitySDKOptions, "walletClient">>,
   ): Promise<IdentitySDK> {
     const [account] = await props.walletClient.getAddresses()
     return new IdentitySDK({ account, ...props })
   }
 
   /**
-   * Submits a transaction and waits for its receipt.
+   * Creates an IdentitySDK that only exposes view methods, without a wallet client.
+   * @param publicClient - The PublicClient instance.
+   * @param chainId - Chain to bind to. Defaults to the public client chain.
+   * @param env - The environment to use. Defaults to "production".
+   * @param account - Optional address to read on behalf of.
+   * @returns A read-only IdentitySDK instance.
+   */
+  static readOnly({
+    publicClient,
+    chainId,
+    env = "production",
+    account,
+    contracts,
+    rpcPool,
+    cache,
+  }: IdentitySDKReadOnlyOptions): IdentitySDK {
+    return new IdentitySDK({
+      account,
+      publicClient,
+      chainId,
+      env,
+      contracts,
+      rpcPool,
+      cache,
+    })
+  }
+
+  /**
+   * Returns the wallet client or throws when the instance is read-only.
+   * @param method - The calling method name, used in the error message.
+   */
+  protected requireWalletClient(method: string): WalletClient & WalletActions {
+    if (!this.walletClient) {
+      throw new ReadOnlySDKError("IdentitySDK", method)
+    }
+    return this.walletClient
+  }
+
+  /**
+   * Returns the SDK account or throws when none was provided.
+   * @param method - The calling method name, used in the error message.
+   */
+  protected requireAccount(method: string): Address {
+    if (!this.account) {
+      throw new MissingAccountError(
+        `IdentitySDK: ${method} requires an account address.`,
+      )
+    }
+    return this.account
+  }
+
+  /**
+   * Returns the face-verification identifier signature, prompting the wallet only once.
+   */
+  protected async getFVSig(method: string): Promise<`0x${string}`> {
+    const walletClient = this.requireWalletClient(method)
+    const address = this.requireAccount(method)
+
+    if (!this.fvSig) {
+      this.fvSig = await walletClient.signMessage({
+        account: address,
+        message: FV_IDENTIFIER_MSG2.replace("<account>", address),
+      })
+    }
+    return this.fvSig
+  }
+
+  /**
+   * Returns the GoodServer client for this env, authenticated with the FV signature.
+   */
+  protected async getGoodServerClient(
+    method: string,
+  ): Promise<GoodServerClient> {
+    if (!this.goodServerClient) {
+      this.goodServerClient = new GoodServerClient({
+        env: this.env,
+        walletClient: this.requireWalletClient(method),
+        fvSig: await this.getFVSig(method),
+      })
+    }
+    return this.goodServerClient
+  }
+
+  /**
+   * Submits a transaction through the shared transaction engine and waits for its receipt.
    * @param params - Parameters for simulating the contract call.
    * @param onHash - Optional callback to receive the transaction hash.
+   * @param options - Lifecycle hooks and limits, merged over the SDK `transactions` option.
    * @returns The transaction receipt.
-   * @throws If submission fails or no active wallet address is found.
+   * @throws A {@link GoodSDKError} classified from the failure (e.g. SIMULATION_REVERTED, USER_REJECTED, TRANSACTION_FAILED).
    */
   async submitAndWait(
     params: SimulateContractParameters,
     onHash?: (hash: `0x${string}`) => void,
-  ): Promise<any> {
-    try {
-      if (!this.account) throw new Error("No active wallet address found.")
-
-      const { request } = await this.publicClient.simulateContract({
-        account: this.account,
-        ...params,
-      })
+    options?: TransactionOptions,
+  ): Promise<TransactionReceipt> {
+    const walletClient = this.requireWalletClient("submitAndWait")
+    if (!this.account) throw new MissingAccountError()
 
-      const hash = await this.walletClient.writeContract(request)
-      onHash?.(hash)
+    const receipt = await submitTransaction({
+      publicClient: this.readClient,
+      walletClient,
+      account: this.account,
+      params,
+      send: (request) => this.sendRequest(walletClient, request),
+      ...mergeTransactionOptions(this.transactionOptions, options, { onHash }),
+    })
+    // Connecting or disconnecting accounts changes whitelisted roots.
+    this.cache?.invalidate(this.chainId)
+    return receipt
+  }
 
-      return waitForTransactionReceipt(this.publicClient, { hash })
-    } catch (error: any) {
-      console.error("submitAndWait Error:", error)
-      throw new Error(`Failed to submit transaction: ${error.message}`)
-    }
+  /**
+   * Sends a simulated request. Subclasses override it to change how
+   * transactions are signed and broadcast.
+   */
+  protected sendRequest(
+    walletClient: WalletClient<any, Chain | undefined, Account | undefined>,
+    request: SimulatedRequest,
+  ): Promise<`0x${string}`> {
+    return walletClient.writeContract(request)
   }
 
   /**
@@ -144,13 +441,18 @@ export class IdentitySDK {
   async getWhitelistedRoot(
     account: Address,
   ): Promise<{ isWhitelisted: boolean; root: Address }> {
+    const params = {
+      address: this.contract.contractAddress,
+      abi: identityV2ABI,
+      functionName: "getWhitelistedRoot",
+      args: [account],
+    } as const
+    const read = () => this.readClient.readContract(params)
+
     try {
-      const root = await this.publicClient.readContract({
-        address: this.contract.contractAddress,
-        abi: identityV2ABI,
-        functionName: "getWhitelistedRoot",
-        args: [account],
-      })
+      const root = await (this.cache
+        ? this.cache.read({ chainId: this.chainId, ...params }, read)
+        : read())
 
       return {
         isWhitelisted: root !== zeroAddress,
@@ -158,8 +460,239 @@ export class IdentitySDK {
       }
     } catch (error: any) {
       console.error("getWhitelistedRoot Error:", error)
-      throw new Error(`Failed to get whitelisted root: ${error.message}`)
+      throw toReadError(error, "Failed to get whitelisted root")
+    }
+  }
+
+  /**
+   * Resolves the whitelisted root of many addresses, batching reads through multicall.
+   * Failures are reported per address instead of failing the whole batch.
+   * @param addresses - The addresses to check. Duplicates are resolved once.
+   * @param options - Chunk size and concurrency of the multicall batches.
+   * @returns A map from each address to its whitelist result.
+   */
+  async getWhitelistedRoots(
+    addresses: Address[],
+    options: GetWhitelistedRootsOptions = {},
+  ): Promise<Map<Address, WhitelistedRootResult>> {
+    const {
+      chunkSize = DEFAULT_MULTICALL_CHUNK_SIZE,
+      concurrency = DEFAULT_MULTICALL_CONCURRENCY,
+    } = options
+    const results = new Map<Address, WhitelistedRootResult>()
+    const multicallAddress =
+      this.readClient.chain?.contracts?.multicall3?.address ??
+      chainConfigs[this.chainId]?.multicallAddress
+
+    const tasks = chunk(Array.from(new Set(addresses)), chunkSize).map(
+      (batch) => async () => {
+        try {
+          const callResults = await this.readClient.multicall({
+            contracts: batch.map((address) => ({
+              address: this.contract.contractAddress,
+              abi: identityV2ABI,
+              functionName: "getWhitelistedRoot" as const,
+              args: [address] as const,
+            })),
+            allowFailure: true,
+            multicallAddress,
+          })
+
+          batch.forEach((address, index) => {
+            const callResult = callResults[index]
+            results.set(
+              address,
+              callResult.status === "success"
+                ? {
+                    status: "success",
+                    isWhitelisted: callResult.result !== zeroAddress,
+                    root: callResult.result,
+                  }
+                : {
+                    status: "failure",
+                    error: extractErrorMessage(callResult.error),
+                  },
+            )
+          })
+        } catch (error) {
+          const message = extractErrorMessage(error)
+          batch.forEach((address) => {
+            results.set(address, { status: "failure", error: message })
+          })
+        }
+      },
+    )
+
+    await promisePool(tasks, concurrency)
+
+    return results
+  }
+
+  /**
+   * Connects a secondary wallet to the whitelisted identity of the SDK account.
+   * The SDK account must be the whitelisted root; the target must be neither
+   * whitelisted nor already connected.
+   * @param account - The wallet address to connect.
+   * @param onHash - Optional callback to receive the transaction hash.
+   * @returns The transaction receipt.
+   * @throws If the SDK account is not a whitelisted root or the account is already connected.
+   * @reference: https://docs.gooddollar.org/user-guides/connect-another-wallet-address-to-identity
+   */
+  async connectAccount(
+    account: Address,
+    onHash?: (hash: `0x${string}`) => void,
+  ): Promise<TransactionReceipt> {
+    const walletClient = this.requireWalletClient("connectAccount")
+    const sender = this.requireAccount("connectAccount")
+    const { isWhitelisted, root } = await this.getWhitelistedRoot(sender)
+    if (!isWhitelisted || root.toLowerCase() !== sender.toLowerCase()) {
+      throw new NotWhitelistedError(
+        "Only a whitelisted root identity can connect another account.",
+      )
+    }
+
+    const connectedTo = await this.getConnectedRoot(account)
+    if (connectedTo !== zeroAddress) {
+      throw new GoodSDKError(
+        "ACCOUNT_ALREADY_CONNECTED",
+        `Account ${account} is already connected to ${connectedTo}.`,
+      )
+    }
+
+    return this.submitAndWait(
+      {
+        address: this.contract.contractAddress,
+        abi: identityV2ABI,
+        functionName: "connectAccount",
+        args: [account],
+        chain: walletClient.chain,
+      },
+      onHash,
+    )
+  }
+
+  /**
+   * Disconnects a connected wallet from its whitelisted identity.
+   * Can be sent either by the root identity or by the connected wallet itself.
+   * @param account - The connected wallet address to disconnect.
+   * @param onHash - Optional callback to receive the transaction hash.
+   * @returns The transaction receipt.
+   * @throws If the account is not connected or the SDK account is not allowed to disconnect it.
+   */
+  async disconnectAccount(
+    account: Address,
+    onHash?: (hash: `0x${string}`) => void,
+  ): Promise<TransactionReceipt> {
+    const walletClient = this.requireWalletClient("disconnectAccount")
+    const sender = this.requireAccount("disconnectAccount").toLowerCase()
+    const connectedTo = await this.getConnectedRoot(account)
+    if (connectedTo === zeroAddress) {
+      throw new GoodSDKError(
+        "ACCOUNT_NOT_CONNECTED",
+        `Account ${account} is not connected to any identity.`,
+      )
+    }
+
+    if (
+      sender !== connectedTo.toLowerCase() &&
+      sender !== account.toLowerCase()
+    ) {
+      throw new GoodSDKError(
+        "UNAUTHORIZED",
+        "Only the root identity or the connected account can disconnect it.",
+      )
+    }
+
+    return this.submitAndWait(
+      {
+        address: this.contract.contractAddress,
+        abi: identityV2ABI,
+        functionName: "disconnectAccount",
+        args: [account],
+        chain: walletClient.chain,
+      },
+      onHash,
+    )
+  }
+
+  /**
+   * Lists the wallets currently connected to a root identity.
+   * Scans AccountConnected events and keeps only accounts that are still connected on-chain.
+   * The scan starts at the identity contract's deployment block unless `fromBlock` is given.
+   * @param root - The root identity address (defaults to the SDK account).
+   * @param options - Block range and batch size for the event scan.
+   * @returns The connected wallet addresses.
+   * @throws GoodSDKError with code `INVALID_ARGUMENT` when neither `fromBlock` nor a deployment block is known.
+   */
+  async listConnectedAccounts(
+    root?: Address,
+    { fromBlock, toBlock, batchSize }: ListConnectedAccountsOptions = {},
+  ): Promise<Address[]> {
+    const rootAddress = root ?? this.requireAccount("listConnectedAccounts")
+    // A shorter window would silently miss older connections.
+    const startBlock = fromBlock ?? this.identityDeploymentBlock
+    if (startBlock === undefined) {
+      throw new GoodSDKError(
+        "INVALID_ARGUMENT",
+        `No identity deployment block is configured for chain ${this.chainId}; pass fromBlock to listConnectedAccounts.`,
+      )
     }
+
+    try {
+      const endBlock = toBlock ?? (await this.readClient.getBlockNumber())
+      const logs = await fetchInBlockBatches({
+        batchSize: batchSize ?? DEFAULT_EVENT_BATCH_SIZE,
+        fromBlock: startBlock,
+        toBlock: endBlock,
+        promiseCreator: (from, to) =>
+          this.readClient.getContractEvents({
+            address: this.contract.contractAddress,
+            abi: identityV2ABI,
+            eventName: "AccountConnected",
+            args: { to: rootAddress },
+            fromBlock: from,
+            toBlock: to,
+          }),
+        // A skipped range could hide a connected account: fail the whole scan.
+        onBatchFailure: (error) => {
+          throw error
+        },
+      })
+
+      const candidates = Array.from(
+        new Set(
+          logs
+            .map((log) => log.args.connected)
+            .filter((connected): connected is Address => Boolean(connected)),
+        ),
+      )
+
+      const connectedRoots = await Promise.all(
+        candidates.map((candidate) => this.getConnectedRoot(candidate)),
+      )
+
+      return candidates.filter(
+        (_, index) =>
+          connectedRoots[index].toLowerCase() === rootAddress.toLowerCase(),
+      )
+    } catch (error: any) {
+      console.error("listConnectedAccounts Error:", error)
+      throw toReadError(error, "Failed to list connected accounts")
+    }
+  }
+
+  /**
+   * Reads the root identity an account is connected to.
+   * @param account - The account address.
+   * @returns The root address, or the zero address when not connected.
+   */
+  private async getConnectedRoot(account: Address): Promise<Address> {
+    return this.readClient.readContract({
+      address: this.contract.contractAddress,
+      abi: identityV2ABI,
+      functionName: "connectedAccounts",
+      args: [account],
+    })
   }
 
   /**
@@ -170,13 +703,13 @@ export class IdentitySDK {
   async getIdentityExpiryData(account: Address): Promise<IdentityExpiryData> {
     try {
       const [lastAuthenticated, authPeriod] = await Promise.all([
-        this.publicClient.readContract({
+        this.readClient.readContract({
           address: this.contract.contractAddress,
           abi: identityV2ABI,
           functionName: "lastAuthenticated",
           args: [account],
         }),
-        this.publicClient.readContract({
+        this.readClient.readContract({
           address: this.contract.contractAddress,
           abi: identityV2ABI,
           functionName: "authenticationPeriod",
@@ -187,47 +720,256 @@ export class IdentitySDK {
       return { lastAuthenticated, authPeriod }
     } catch (error: any) {
       console.error("getIdentityExpiryData Error:", error)
-      throw new Error(
-        `Failed to retrieve identity expiry data: ${error.message}`,
-      )
+      throw toReadError(error, "Failed to retrieve identity expiry data")
     }
   }
 
+  /**
+   * Reads whitelist and authentication state for an account on every chain
+   * configured for the current env, so propagation gaps between chains are visible.
+   * The bound chain is read through the SDK public client, other chains through
+   * the RPC fallback list, trying each configured URL before reporting a failure.
+   * @param account - The account address. Defaults to the SDK account.
+   * @returns A per-chain report and the chains where the identity has not propagated.
+   */
+  async getIdentityOverview(account?: Address): Promise<IdentityOverview> {
+    const target = account ?? this.requireAccount("getIdentityOverview")
+
+    const chainIds = SUPPORTED_CHAIN_IDS.filter((chainId) =>
+      getChainContracts(chainId, this.env, this.contractOverrides),
+    )
+
+    const reports = await Promise.all(
+      chainIds.map((chainId) => this.readChainIdentity(chainId, target)),
+    )
+
+    const reachable = reports.filter((report) => report.ok)
+    const isWhitelistedAnywhere = reachable.some(
+      (report) => report.isWhitelisted,
+    )
+    const latestAuthentication = reachable.reduce(
+      (latest, report) =>
+        report.lastAuthenticated > latest ? report.lastAuthenticated : latest,
+      0n,
+    )
+
+    const chains = reports.map((report) => ({
+      ...report,
+      notPropagated:
+        report.ok &&
+        isWhitelistedAnywhere &&
+        (!report.isWhitelisted ||
+          report.lastAuthenticated < latestAuthentication),
+    }))
+
+    return {
+      account: target,
+      isWhitelistedAnywhere,
+      chains,
+      notPropagatedChains: chains
+        .filter((report) => report.notPropagated)
+        .map((report) => report.chainId),
+    }
+  }
+
+  /**
+   * Reads the identity state of an account on a single chain.
+   * @param chainId - The chain to read from.
+   * @param account - The account address.
+   * @returns The chain report; read failures are reported instead of thrown.
+   */
+  private async readChainIdentity(
+    chainId: SupportedChains,
+    account: Address,
+  ): Promise<ChainIdentityReport> {
+    const config = chainConfigs[chainId]
+    const { identityContract } = getChainContracts(
+      chainId,
+      this.env,
+      this.contractOverrides,
+    )!
+    // The pool retries transient failures across the chain's endpoints.
+    const client =
+      chainId === this.chainId ? this.readClient : getRpcPool(chainId).client
+
+    try {
+      const [root, authPeriod] = await Promise.all([
+        client.readContract({
+          address: identityContract,
+          abi: identityV2ABI,
+          functionName: "getWhitelistedRoot",
+          args: [account],
+        }),
+        client.readContract({
+          address: identityContract,
+          abi: identityV2ABI,
+          functionName: "authenticationPeriod",
+        }),
+      ])
+
+      const isWhitelisted = root !== zeroAddress
+      const resolvedRoot = isWhitelisted ? root : account
+      const lastAuthenticated = await client.readContract({
+        address: identityContract,
+        abi: identityV2ABI,
+        functionName: "lastAuthenticated",
+        args: [resolvedRoot],
+      })
+
+      return {
+        chainId,
+        label: config.label,
+        ok: true,
+        isWhitelisted,
+        root: resolvedRoot,
+        lastAuthenticated,
+        authPeriod,
+        expiryDate:
+          lastAuthenticated > 0n
+            ? new Date(
+                Number(
+                  this.calculateIdentityExpiry(lastAuthenticated, authPeriod)
+                    .expiryTimestamp,
+                ),
+              )
+            : null,
+        notPropagated: false,
+      }
+    } catch (error) {
+      return {
+        chainId,
+        label: config.label,
+        ok: false,
+        isWhitelisted: false,
+        root: zeroAddress,
+        lastAuthenticated: 0n,
+        authPeriod: 0n,
+        expiryDate: null,
+        notPropagated: false,
+        error: extractErrorMessage(error),
+      }
+    }
+  }
+
+  /**
+   * Resolves the identity lifecycle status of an account.
+   * Connected accounts are resolved to their root, whose expiry determines the status.
+   * @param account - The account address. Defaults to the SDK account.
+   * @param options - Expiring-soon threshold and optional re-verification link settings.
+   * @returns The identity status with expiry date, days remaining and root address.
+   */
+  async getIdentityStatus(
+    account?: Address,
+    options: GetIdentityStatusOptions = {},
+  ): Promise<IdentityStatus> {
+    const target = account ?? this.requireAccount("getIdentityStatus")
+    const expiringSoonDays =
+      options.expiringSoonDays ?? DEFAULT_EXPIRING_SOON_DAYS
+
+    const { isWhitelisted, root: whitelistedRoot } =
+      await this.getWhitelistedRoot(target)
+    // An expired identity no longer resolves, so fall back to the account itself.
+    const root = isWhitelisted ? whitelistedRoot : target
+
+    const { lastAuthenticated, authPeriod } =
+      await this.getIdentityExpiryData(root)
+
+    const createFVLink = async () =>
+      options.fvLink &&
+      this.walletClient &&
+      this.account?.toLowerCase() === target.toLowerCase()
+        ? this.generateFVLink(
+            options.fvLink.popupMode,
+            options.fvLink.callbackUrl,
+            options.fvLink.chainId,
+          )
+        : undefined
+
+    if (lastAuthenticated === 0n) {
+      if (isWhitelisted) {
+        return {
+          status: "active",
+          account: target,
+          root,
+          expiryDate: null,
+          daysRemaining: null,
+        }
+      }
+
+      return {
+        status: "unverified",
+        account: target,
+        root,
+        fvLink: await createFVLink(),
+      }
+    }
+
+    const { expiryTimestamp } = this.calculateIdentityExpiry(
+      lastAuthenticated,
+      authPeriod,
+    )
+    const expiryDate = new Date(Number(expiryTimestamp))
+    const msRemaining = expiryDate.getTime() - Date.now()
+    const daysRemaining = Math.max(0, Math.ceil(msRemaining / DAY))
+    const details = { account: target, root, expiryDate, daysRemaining }
+
+    if (!isWhitelisted || msRemaining <= 0) {
+      return { status: "expired", ...details, fvLink: await createFVLink() }
+    }
+
+    if (daysRemaining <= expiringSoonDays) {
+      return {
+        status: "expiring_soon",
+        ...details,
+        fvLink: await createFVLink(),
+      }
+    }
+
+    return { status: "active", ...details }
+  }
+
   /**
    * Generates a Face Verification Link.
    * @param popupMode - Whether to generate a popup link.
    * @param callbackUrl - The URL to callback after verification.
    * @param chainId - The blockchain network ID.
+   * @param returnState - Optional app state restored by `handleFVCallback` after the redirect.
    * @returns The generated Face Verification link.
    */
   async generateFVLink(
     popupMode: boolean = false,
     callbackUrl?: string,
     chainId?: number,
+    returnState?: unknown,
   ): Promise<string> {
+    this.requireWalletClient("generateFVLink")
     try {
       const address = this.account
-      if (!address) throw new Error("No wallet address found.")
+      if (!address) throw new MissingAccountError("No wallet address found.")
 
       const nonce = Math.floor(Date.now() / 1000).toString()
 
-      const fvSigMessage = FV_IDENTIFIER_MSG2.replace("<account>", address)
-      const fvSig = await this.walletClient.signMessage({
-        account: address,
-        message: fvSigMessage,
-      })
+      const fvSig = await this.getFVSig("generateFVLink")
 
       const { identityUrl } = Envs[this.env]
       if (!identityUrl) {
-        throw new Error("identityUrl is not defined in environment settings.")
+        throw new MissingConfigurationError(
+          "identityUrl is not defined in environment settings.",
+        )
       }
 
       if (!fvSig) {
-        throw new Error("Missing signature for Face Verification.")
+        throw new GoodSDKError(
+          "INVALID_ARGUMENT",
+          "Missing signature for Face Verification.",
+        )
       }
 
       if (!popupMode && !callbackUrl) {
-        throw new Error("Callback URL is required for redirect mode.")
+        throw new GoodSDKError(
+          "INVALID_ARGUMENT",
+          "Callback URL is required for redirect mode.",
+        )
       }
 
       const url = new URL(identityUrl)
@@ -245,8 +987,19 @@ export class IdentitySDK {
         chain: fvChain,
       }
 
-      if (callbackUrl) {
-        params[popupMode ? "cbu" : "rdu"] = callbackUrl
+      if (callbackUrl && popupMode) {
+        params.cbu = callbackUrl
+      } else if (callbackUrl) {
+        // Tie the redirect back to this request so the callback can be validated.
+        const callbackNonce = createFVCallbackNonce()
+        params.rdu = appendFVNonce(callbackUrl, callbackNonce)
+        savePendingFVRequest({
+          nonce: callbackNonce,
+          account: address,
+          chainId: fvChain,
+          createdAt: Date.now(),
+          state: returnState,
+        })
       }
 
       url.searchParams.append(
@@ -256,10 +1009,156 @@ export class IdentitySDK {
       return url.toString()
     } catch (error: any) {
       console.error("generateFVLink Error:", error)
-      throw new Error(
-        `Failed to generate Face Verification link: ${error.message}`,
+      throw toGoodSDKError(error, "Failed to generate Face Verification link")
+    }
+  }
+
+  /**
+   * Deletes the anonymized face record tied to the account's FV identifier.
+   * Reuses the identifier signature from `generateFVLink` when available.
+   * @returns Whether the record was deleted, did not exist, or the request failed.
+   */
+  async deleteFaceRecord(): Promise<FaceRecordDeletionResult> {
+    const account = this.requireAccount("deleteFaceRecord")
+    try {
+      const client = await this.getGoodServerClient("deleteFaceRecord")
+      await client.deleteFaceRecord(await this.getFVSig("deleteFaceRecord"))
+      return { status: "deleted", account }
+    } catch (error: any) {
+      if (error instanceof GoodServerError && error.status === 404) {
+        return { status: "not_found", account }
+      }
+      if (error instanceof ReadOnlySDKError) throw error
+
+      console.error("deleteFaceRecord Error:", error)
+      return { status: "failed", account, error: error.message }
+    }
+  }
+
+  /**
+   * Handles the redirect back from GoodID after face verification.
+   * Matches the callback with the request issued by `generateFVLink`, restores the
+   * stashed app state and re-checks the whitelist on-chain instead of trusting the
+   * `verified` query parameter.
+   * @param callbackUrl - The callback URL. Defaults to the current location.
+   * @param cleanUrl - Whether to strip the callback parameters from the address bar.
+   * @returns The parsed callback with the on-chain whitelist status.
+   */
+  async handleFVCallback<TState = unknown>(
+    callbackUrl?: string,
+    cleanUrl: boolean = true,
+  ): Promise<FVCallbackResult<TState> & { isWhitelisted: boolean }> {
+    const href =
+      callbackUrl ??
+      (typeof window !== "undefined" ? window.location.href : undefined)
+    if (!href) {
+      throw new GoodSDKError(
+        "UNSUPPORTED_ENVIRONMENT",
+        "A callback URL is required outside browser environments.",
+      )
+    }
+
+    const result = parseFVCallback<TState>(href)
+
+    if (
+      result.isCallback &&
+      cleanUrl &&
+      typeof window !== "undefined" &&
+      href === window.location.href
+    ) {
+      window.history.replaceState(
+        window.history.state,
+        document.title,
+        stripFVCallbackParams(href),
       )
     }
+
+    const account = result.account ?? this.account
+    if (!result.valid || !account) {
+      return { ...result, verified: false, isWhitelisted: false }
+    }
+
+    // A root cached before verification would hide the new whitelisting.
+    this.cache?.invalidate(this.chainId)
+    const { isWhitelisted } = await this.getWhitelistedRoot(account)
+    return { ...result, verified: isWhitelisted, isWhitelisted }
+  }
+
+  /**
+   * Runs face verification in a popup window and resolves with the outcome.
+   * Must be called from a user gesture (e.g. a click handler) so the popup is not blocked.
+   * On completion, the whitelist status is re-checked on-chain; a posted "verified"
+   * message alone is never trusted.
+   * @param options - Popup, callback and timeout options.
+   * @returns The verification result.
+   * @throws If called outside a browser or the link cannot be generated.
+   */
+  async verifyInPopup(
+    options: VerifyInPopupOptions = {},
+  ): Promise<FVPopupResult> {
+    this.requireWalletClient("verifyInPopup")
+    const account = this.requireAccount("verifyInPopup")
+
+    if (typeof window === "undefined") {
+      throw new GoodSDKError(
+        "UNSUPPORTED_ENVIRONMENT",
+        "Popup face verification is only supported in browser environments.",
+      )
+    }
+
+    const popup = openFVPopup(options.popupFeatures)
+    if (!popup) {
+      return { status: "popup_blocked" }
+    }
+
+    let fvLink: string
+    try {
+      fvLink = await this.generateFVLink(
+        true,
+        options.callbackUrl,
+        options.chainId,
+      )
+    } catch (error) {
+      popup.close()
+      throw error
+    }
+
+    popup.location.href = fvLink
+
+    const outcome = await waitForFVPopup(popup, new URL(fvLink).origin, {
+      timeoutMs: options.timeoutMs ?? 15 * 60 * 1000,
+      pollIntervalMs: 500,
+    })
+
+    if (!popup.closed) popup.close()
+
+    // The whitelisting transaction may land shortly after GoodID reports success.
+    const attempts =
+      outcome.type === "message" && outcome.message.verified ? 5 : 1
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      // Each re-check must reach the chain, not a root cached before verification.
+      this.cache?.invalidate(this.chainId)
+      const { isWhitelisted, root } = await this.getWhitelistedRoot(account)
+      if (isWhitelisted) {
+        return { status: "verified", root }
+      }
+      if (attempt < attempts) {
+        await new Promise((resolve) => setTimeout(resolve, 3000))
+      }
+    }
+
+    if (outcome.type === "message") {
+      return {
+        status: "failed",
+        reason:
+          outcome.message.reason ??
+          (outcome.message.verified
+            ? "Verification completed but the account is not whitelisted yet."
+            : undefined),
+      }
+    }
+
+    return { status: outcome.type }
   }
 
   /**
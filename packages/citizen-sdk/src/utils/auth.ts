@@ -5,6 +5,11 @@ async function signMessageWithViem(
   account: Account,
   message: string,
 ): Promise<string> {
+  // Local accounts sign directly; no wallet client or transport is needed.
+  if (account.type === "local") {
+    return account.signMessage({ message });
+  }
+
   const walletClient = createWalletClient({
     account,
     transport: http(),
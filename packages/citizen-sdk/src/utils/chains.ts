@@ -1,27 +1,50 @@
-import { WalletActions, WalletClient } from "viem"
-
 import {
   ContractAddresses,
+  ContractOverrides,
   contractEnv,
   chainConfigs,
   isSupportedChain,
   SupportedChains,
+  validateContractAddresses,
 } from "../constants"
+import { MissingConfigurationError, UnsupportedChainError } from "../errors"
+
+/**
+ * Returns the contract addresses of a chain for an env, with any per-instance
+ * overrides applied, or null when the chain has no deployment in that env.
+ * @throws MissingConfigurationError if the merged addresses are incomplete.
+ */
+export const getChainContracts = (
+  chainId: SupportedChains,
+  env: contractEnv,
+  overrides?: ContractOverrides,
+): ContractAddresses | null => {
+  const registered = chainConfigs[chainId]?.contracts[env]
+  const override = overrides?.[chainId]
+
+  if (!registered && !override) {
+    return null
+  }
+
+  return validateContractAddresses(
+    { ...registered, ...override },
+    `chain ${chainId} (${env})`,
+  )
+}
 
 export const resolveChainAndContract = (
-  walletClient: WalletClient & WalletActions,
+  chainId: number | undefined,
   env: contractEnv,
+  overrides?: ContractOverrides,
 ): { chainId: SupportedChains; contractEnvAddresses: ContractAddresses } => {
-  const chainId = walletClient.chain?.id
-
   if (!isSupportedChain(chainId)) {
-    throw new Error(`Unsupported chain ID.`)
+    throw new UnsupportedChainError(chainId)
   }
 
-  const contractEnvAddresses = chainConfigs[chainId]?.contracts[env] ?? null
+  const contractEnvAddresses = getChainContracts(chainId, env, overrides)
 
   if (!contractEnvAddresses) {
-    throw new Error(
+    throw new MissingConfigurationError(
       `Contract address for environment "${env}" on chain "${chainConfigs[chainId].label}" not found. Try a different environment or chain.`,
     )
   }
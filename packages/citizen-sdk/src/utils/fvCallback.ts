@@ -0,0 +1,175 @@
+import { bytesToHex, type Address } from "viem"
+
+export const FV_NONCE_PARAM = "fvnonce"
+export const FV_PENDING_STORAGE_KEY = "goodDollarFVPending"
+export const FV_PENDING_MAX_AGE_MS = 60 * 60 * 1000
+
+const FV_CALLBACK_PARAMS = [
+  FV_NONCE_PARAM,
+  "verified",
+  "reason",
+  "error",
+  "account",
+  "chain",
+]
+
+interface PendingFVRequest {
+  nonce: string
+  account: Address
+  chainId: number
+  createdAt: number
+  state?: unknown
+}
+
+export type FVCallbackInvalidReason =
+  | "missing_nonce"
+  | "unknown_nonce"
+  | "expired"
+  | "account_mismatch"
+  | "chain_mismatch"
+
+export interface FVCallbackResult<TState = unknown> {
+  /** Whether the URL carries face-verification callback parameters at all. */
+  isCallback: boolean
+  /** The `verified` flag reported by GoodID. Only meaningful when `valid` is true. */
+  verified: boolean
+  /** Whether the callback matches a pending request issued by `generateFVLink`. */
+  valid: boolean
+  invalidReason?: FVCallbackInvalidReason
+  /** Failure reason reported by GoodID, if any. */
+  reason?: string
+  nonce?: string
+  account?: Address
+  chainId?: number
+  /** App state stashed with `generateFVLink`, restored from the matching request. */
+  state?: TState
+}
+
+const getSessionStorage = (): Storage | undefined =>
+  typeof sessionStorage !== "undefined" ? sessionStorage : undefined
+
+const readPendingRequests = (): PendingFVRequest[] => {
+  const raw = getSessionStorage()?.getItem(FV_PENDING_STORAGE_KEY)
+  if (!raw) return []
+
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+const writePendingRequests = (requests: PendingFVRequest[]) => {
+  const storage = getSessionStorage()
+  if (!storage) return
+
+  if (requests.length) {
+    storage.setItem(FV_PENDING_STORAGE_KEY, JSON.stringify(requests))
+  } else {
+    storage.removeItem(FV_PENDING_STORAGE_KEY)
+  }
+}
+
+/**
+ * Creates an unpredictable nonce tying a redirect callback to its request, so
+ * links generated in the same second never share one.
+ */
+export const createFVCallbackNonce = (): string =>
+  bytesToHex(globalThis.crypto.getRandomValues(new Uint8Array(16))).slice(2)
+
+/**
+ * Records a face-verification request so its callback can be matched later.
+ * Stale requests are pruned on every write.
+ */
+export const savePendingFVRequest = (request: PendingFVRequest): void => {
+  const now = Date.now()
+  const pending = readPendingRequests().filter(
+    (entry) =>
+      entry.nonce !== request.nonce &&
+      now - entry.createdAt < FV_PENDING_MAX_AGE_MS,
+  )
+  writePendingRequests([...pending, request])
+}
+
+/**
+ * Appends the request nonce to the redirect URL so GoodID hands it back.
+ */
+export const appendFVNonce = (callbackUrl: string, nonce: string): string => {
+  const url = new URL(callbackUrl)
+  url.searchParams.set(FV_NONCE_PARAM, nonce)
+  return url.toString()
+}
+
+/**
+ * Parses the face-verification redirect callback and matches it with the pending request.
+ * A matched request is consumed, so the same callback cannot be replayed.
+ * @param callbackUrl - The URL GoodID redirected to.
+ * @returns The parsed callback, including any stashed app state.
+ */
+export const parseFVCallback = <TState = unknown>(
+  callbackUrl: string,
+): FVCallbackResult<TState> => {
+  const params = new URL(callbackUrl).searchParams
+  const verifiedParam = params.get("verified")
+  const nonce = params.get(FV_NONCE_PARAM) ?? undefined
+  const reason = params.get("reason") ?? params.get("error") ?? undefined
+  const accountParam = params.get("account") ?? undefined
+  const chainParam = params.get("chain")
+  const chainId = chainParam ? Number(chainParam) : undefined
+
+  const result: FVCallbackResult<TState> = {
+    isCallback: verifiedParam !== null || nonce !== undefined,
+    verified: verifiedParam === "true",
+    valid: false,
+    reason,
+    nonce,
+  }
+
+  if (!result.isCallback) return result
+
+  if (!nonce) {
+    return { ...result, invalidReason: "missing_nonce" }
+  }
+
+  const pending = readPendingRequests()
+  const match = pending.find((entry) => entry.nonce === nonce)
+  if (!match) {
+    return { ...result, invalidReason: "unknown_nonce" }
+  }
+
+  writePendingRequests(pending.filter((entry) => entry !== match))
+
+  const matched: FVCallbackResult<TState> = {
+    ...result,
+    account: match.account,
+    chainId: match.chainId,
+    state: match.state as TState,
+  }
+
+  if (Date.now() - match.createdAt >= FV_PENDING_MAX_AGE_MS) {
+    return { ...matched, invalidReason: "expired" }
+  }
+
+  if (
+    accountParam &&
+    accountParam.toLowerCase() !== match.account.toLowerCase()
+  ) {
+    return { ...matched, invalidReason: "account_mismatch" }
+  }
+
+  if (chainId !== undefined && chainId !== match.chainId) {
+    return { ...matched, invalidReason: "chain_mismatch" }
+  }
+
+  return { ...matched, valid: true }
+}
+
+/**
+ * Removes face-verification callback parameters from a URL.
+ */
+export const stripFVCallbackParams = (callbackUrl: string): string => {
+  const url = new URL(callbackUrl)
+  FV_CALLBACK_PARAMS.forEach((param) => url.searchParams.delete(param))
+  return url.toString()
+}
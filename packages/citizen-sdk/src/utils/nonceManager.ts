@@ -0,0 +1,285 @@
+import { NonceTooLowError, type Address, type PublicClient } from "viem"
+
+import type { AnyStorage } from "./storage"
+
+const NONCE_KEY_PREFIX = "goodsdks:nonce"
+
+export const DEFAULT_NONCE_SEND_ATTEMPTS = 3
+export const DEFAULT_NONCE_DROPPED_AFTER_MS = 5 * 60_000
+
+// Errors meaning the nonce is already taken on chain or in the mempool.
+const NONCE_TAKEN_MESSAGE =
+  /nonce too low|nonce has already been used|replacement transaction underpriced/i
+
+export interface NonceManagerOptions {
+  /**
+   * Persists the next nonce, open gaps and recently sent nonces (e.g.
+   * `createFileStorage`) so a restarted worker does not reuse nonces the node
+   * has not indexed yet. Defaults to memory only.
+   */
+  storage?: AnyStorage
+  /** Sends attempted in total when a nonce turns out to be taken. Defaults to 3. */
+  maxAttempts?: number
+  /**
+   * How long a sent nonce may stay above the chain's pending nonce before its
+   * transaction is treated as dropped and the nonce is handed out again.
+   * Defaults to 5 minutes.
+   */
+  droppedAfterMs?: number
+}
+
+/** The account whose nonces are managed, and the client used to read its pending nonce. */
+export interface NonceScope {
+  address: Address
+  client: PublicClient
+}
+
+export interface NonceManager {
+  /**
+   * Reserves a nonce: the lowest gap left by a failed send, otherwise the next
+   * unused nonce. The first reservation of an account syncs with the chain.
+   */
+  reserve(scope: NonceScope): Promise<number>
+  /** Records that the transaction using a reserved nonce was broadcast. */
+  markSent(scope: NonceScope, nonce: number): Promise<void>
+  /** Returns a nonce whose send failed, so the next reservation fills the gap. */
+  release(scope: NonceScope, nonce: number): Promise<void>
+  /**
+   * Reconciles with the chain's pending nonce: nonces the chain used are
+   * skipped, and nonces above it that are neither being sent nor recently sent
+   * are handed out again.
+   */
+  resync(scope: NonceScope): Promise<void>
+  /**
+   * Runs `send` with a reserved nonce and marks it sent on success. A failed
+   * send releases its nonce; a "nonce too low" failure resyncs and retries
+   * with a fresh nonce.
+   * @returns The result of the successful send.
+   */
+  send<T>(scope: NonceScope, send: (nonce: number) => Promise<T>): Promise<T>
+}
+
+interface NonceState {
+  next: number
+  /** Released nonces below `next`, ascending. */
+  gaps: number[]
+  /** Broadcast nonces not yet below the pending nonce, with their send time. */
+  sent: Record<number, number>
+}
+
+const isNonceTakenError = (error: unknown): boolean => {
+  let current: any = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (
+      current instanceof NonceTooLowError ||
+      (typeof current.message === "string" &&
+        NONCE_TAKEN_MESSAGE.test(current.message))
+    ) {
+      return true
+    }
+    current = current.cause
+  }
+  return false
+}
+
+/**
+ * Creates a nonce manager for accounts that sign locally, so several
+ * transactions of one hot wallet can be sent concurrently without colliding.
+ * Reservations are serialised per account and chain.
+ * @param options - Optional persistent storage and retry limit.
+ */
+export const createNonceManager = ({
+  storage,
+  maxAttempts = DEFAULT_NONCE_SEND_ATTEMPTS,
+  droppedAfterMs = DEFAULT_NONCE_DROPPED_AFTER_MS,
+}: NonceManagerOptions = {}): NonceManager => {
+  const states = new Map<string, NonceState>()
+  // Nonces handed out whose send has not settled yet, per key. Never persisted:
+  // nothing is being sent by a process that just started.
+  const reserved = new Map<string, Set<number>>()
+  const locks = new Map<string, Promise<unknown>>()
+
+  const getKey = async ({ address, client }: NonceScope) => {
+    const chainId = client.chain?.id ?? (await client.getChainId())
+    return `${NONCE_KEY_PREFIX}:${chainId}:${address.toLowerCase()}`
+  }
+
+  const withLock = async <T>(
+    scope: NonceScope,
+    task: (key: string) => Promise<T>,
+  ): Promise<T> => {
+    const key = await getKey(scope)
+    const run = (locks.get(key) ?? Promise.resolve()).then(() => task(key))
+    locks.set(
+      key,
+      run.catch(() => undefined),
+    )
+    return run
+  }
+
+  const getPendingNonce = ({ address, client }: NonceScope) =>
+    client.getTransactionCount({ address, blockTag: "pending" })
+
+  const readStored = async (key: string): Promise<NonceState | undefined> => {
+    if (!storage) return undefined
+    try {
+      const value = await storage.getItem(key)
+      return value ? JSON.parse(value) : undefined
+    } catch (error) {
+      console.warn("Failed to read stored nonce", error)
+      return undefined
+    }
+  }
+
+  const persist = async (key: string, state: NonceState) => {
+    if (!storage) return
+    try {
+      await storage.setItem(key, JSON.stringify(state))
+    } catch (error) {
+      console.warn("Failed to persist nonce", error)
+    }
+  }
+
+  const getReserved = (key: string) => {
+    let nonces = reserved.get(key)
+    if (!nonces) {
+      nonces = new Set()
+      reserved.set(key, nonces)
+    }
+    return nonces
+  }
+
+  const hasDroppedCandidates = (state: NonceState) =>
+    Object.values(state.sent).some(
+      (sentAt) => Date.now() - sentAt > droppedAfterMs,
+    )
+
+  /**
+   * Rebuilds the state from the pending nonce. Only nonces being sent or sent
+   * within `droppedAfterMs` are kept above it; every other nonce up to the
+   * highest kept one becomes a gap, and `next` may move down to `pending`.
+   */
+  const reconcile = (key: string, state: NonceState, pending: number) => {
+    const now = Date.now()
+    for (const nonce of Object.keys(state.sent).map(Number)) {
+      if (nonce < pending || now - state.sent[nonce] > droppedAfterMs) {
+        delete state.sent[nonce]
+      }
+    }
+
+    const tracked = new Set(
+      [...getReserved(key), ...Object.keys(state.sent).map(Number)].filter(
+        (nonce) => nonce >= pending,
+      ),
+    )
+    state.next = Math.max(pending, ...[...tracked].map((nonce) => nonce + 1))
+    state.gaps = []
+    for (let nonce = pending; nonce < state.next; nonce++) {
+      if (!tracked.has(nonce)) state.gaps.push(nonce)
+    }
+  }
+
+  const loadState = async (
+    key: string,
+    scope: NonceScope,
+  ): Promise<NonceState> => {
+    let state = states.get(key)
+    if (!state) {
+      const [stored, pending] = await Promise.all([
+        readStored(key),
+        getPendingNonce(scope),
+      ])
+      state = {
+        next: stored?.next ?? 0,
+        gaps: stored?.gaps ?? [],
+        sent: stored?.sent ?? {},
+      }
+      reconcile(key, state, pending)
+      states.set(key, state)
+    }
+    return state
+  }
+
+  const reserve = (scope: NonceScope) =>
+    withLock(scope, async (key) => {
+      const state = await loadState(key, scope)
+      // A sent transaction never reached the pending nonce: it may have been dropped.
+      if (hasDroppedCandidates(state)) {
+        reconcile(key, state, await getPendingNonce(scope))
+      }
+      const nonce = state.gaps.shift() ?? state.next++
+      getReserved(key).add(nonce)
+      await persist(key, state)
+      return nonce
+    })
+
+  const markSent = (scope: NonceScope, nonce: number) =>
+    withLock(scope, async (key) => {
+      const state = await loadState(key, scope)
+      getReserved(key).delete(nonce)
+      state.sent[nonce] = Date.now()
+      await persist(key, state)
+    })
+
+  const release = (scope: NonceScope, nonce: number) =>
+    withLock(scope, async (key) => {
+      const state = await loadState(key, scope)
+      getReserved(key).delete(nonce)
+      delete state.sent[nonce]
+      if (nonce >= state.next || state.gaps.includes(nonce)) {
+        await persist(key, state)
+        return
+      }
+
+      state.gaps = [...state.gaps, nonce].sort((a, b) => a - b)
+      // Gaps at the top are simply not handed out again.
+      while (state.gaps[state.gaps.length - 1] === state.next - 1) {
+        state.gaps.pop()
+        state.next--
+      }
+      await persist(key, state)
+    })
+
+  const resync = (scope: NonceScope, taken?: number) =>
+    withLock(scope, async (key) => {
+      const state = await loadState(key, scope)
+      if (taken !== undefined) getReserved(key).delete(taken)
+      reconcile(key, state, await getPendingNonce(scope))
+      await persist(key, state)
+    })
+
+  return {
+    reserve,
+    markSent,
+    release,
+    resync: (scope) => resync(scope),
+    async send(scope, send) {
+      for (let attempt = 1; ; attempt++) {
+        const nonce = await reserve(scope)
+        let result
+        try {
+          result = await send(nonce)
+        } catch (error) {
+          if (!isNonceTakenError(error)) {
+            await release(scope, nonce)
+            throw error
+          }
+          // Someone else used the nonce; the pending nonce is past it now.
+          await resync(scope, nonce)
+          if (attempt >= maxAttempts) throw error
+          continue
+        }
+        await markSent(scope, nonce)
+        return result
+      }
+    },
+  }
+}
+
+const sharedNonceManager = createNonceManager()
+
+/**
+ * Returns the in-memory nonce manager shared by every custodial SDK in the
+ * process, so claim, identity and faucet transactions of one wallet don't collide.
+ */
+export const getDefaultNonceManager = (): NonceManager => sharedNonceManager
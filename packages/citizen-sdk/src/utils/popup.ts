@@ -0,0 +1,98 @@
+export const FV_POPUP_NAME = "gooddollar-fv"
+export const DEFAULT_FV_POPUP_FEATURES = "width=480,height=800"
+
+export interface FVPopupMessage {
+  verified: boolean
+  reason?: string
+}
+
+export type FVPopupOutcome =
+  | { type: "message"; message: FVPopupMessage }
+  | { type: "closed" }
+  | { type: "timeout" }
+
+export interface WaitForFVPopupOptions {
+  timeoutMs: number
+  pollIntervalMs: number
+}
+
+/**
+ * Opens an empty popup window synchronously, so it is still tied to the user gesture
+ * while the face-verification link is being signed.
+ * @returns The popup window, or null when the browser blocked it.
+ */
+export const openFVPopup = (
+  features: string = DEFAULT_FV_POPUP_FEATURES,
+): Window | null => {
+  try {
+    return window.open("about:blank", FV_POPUP_NAME, features)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Normalizes a message posted by the GoodID window.
+ * Accepts `{ verified, reason | error }` objects or their JSON-encoded form.
+ * @returns The parsed message, or null when the payload is not a verification result.
+ */
+export const parseFVPopupMessage = (data: unknown): FVPopupMessage | null => {
+  let payload = data
+  if (typeof payload === "string") {
+    try {
+      payload = JSON.parse(payload)
+    } catch {
+      return null
+    }
+  }
+
+  if (!payload || typeof payload !== "object" || !("verified" in payload)) {
+    return null
+  }
+
+  const { verified, reason, error } = payload as Record<string, unknown>
+  const failureReason = reason ?? error
+
+  return {
+    verified: verified === true || verified === "true",
+    reason: typeof failureReason === "string" ? failureReason : undefined,
+  }
+}
+
+/**
+ * Waits for the GoodID popup to post a result, to be closed, or to time out.
+ * Only messages coming from the popup on the expected origin are considered.
+ */
+export const waitForFVPopup = (
+  popup: Window,
+  expectedOrigin: string,
+  { timeoutMs, pollIntervalMs }: WaitForFVPopupOptions,
+): Promise<FVPopupOutcome> =>
+  new Promise((resolve) => {
+    let settled = false
+
+    const finish = (outcome: FVPopupOutcome) => {
+      if (settled) return
+      settled = true
+      window.removeEventListener("message", onMessage)
+      clearInterval(closedPoll)
+      clearTimeout(timeout)
+      resolve(outcome)
+    }
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== expectedOrigin) return
+      if (event.source && event.source !== popup) return
+
+      const message = parseFVPopupMessage(event.data)
+      if (message) finish({ type: "message", message })
+    }
+
+    window.addEventListener("message", onMessage)
+
+    const closedPoll = setInterval(() => {
+      if (popup.closed) finish({ type: "closed" })
+    }, pollIntervalMs)
+
+    const timeout = setTimeout(() => finish({ type: "timeout" }), timeoutMs)
+  })
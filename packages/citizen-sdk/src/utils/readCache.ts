@@ -0,0 +1,143 @@
+import { createPublicClient, custom, type PublicClient } from "viem"
+
+import type { SupportedChains } from "../constants"
+
+/**
+ * Default time-to-live per contract function, in milliseconds. Functions not
+ * listed are not cached, but concurrent identical reads still share one request.
+ */
+export const DEFAULT_READ_CACHE_TTLS: Record<string, number> = {
+  getWhitelistedRoot: 60_000,
+  checkEntitlement: 15_000,
+  getDailyStats: 15_000,
+  currentDay: 60_000,
+  periodStart: 60 * 60_000,
+  minTopping: 60 * 60_000,
+  getToppingAmount: 60 * 60_000,
+}
+
+export interface ReadCacheOptions {
+  /** TTLs per contract function name, merged over `DEFAULT_READ_CACHE_TTLS`. */
+  ttls?: Record<string, number>
+  /** Batch concurrent contract reads into multicall3 calls. Defaults to true. */
+  multicall?: boolean
+}
+
+export interface ReadCacheKey {
+  chainId: SupportedChains
+  address: string
+  functionName: string
+  args?: readonly unknown[]
+}
+
+export interface ReadCache {
+  /** Whether contract reads should be batched with multicall3. */
+  readonly multicall: boolean
+  /**
+   * Returns the cached result of a contract read, or runs `load` once for all
+   * concurrent callers and caches its result for the function's TTL.
+   * Failed loads are never cached.
+   */
+  read<T>(key: ReadCacheKey, load: () => Promise<T>): Promise<T>
+  /** Drops cached reads of one chain, or of every chain when omitted. */
+  invalidate(chainId?: SupportedChains): void
+}
+
+const serializeKey = ({
+  chainId,
+  address,
+  functionName,
+  args = [],
+}: ReadCacheKey) =>
+  [
+    chainId,
+    address.toLowerCase(),
+    functionName,
+    JSON.stringify(args, (_, value) =>
+      typeof value === "bigint"
+        ? value.toString()
+        : typeof value === "string"
+          ? value.toLowerCase()
+          : value,
+    ),
+  ].join(":")
+
+/**
+ * Creates a read cache that can be passed to `IdentitySDK` and `ClaimSDK` as
+ * `cache`. Give both SDKs the same instance so lookups such as
+ * `getWhitelistedRoot` are shared between them.
+ * @param options - Per-function TTL overrides and multicall batching.
+ */
+export const createReadCache = ({
+  ttls,
+  multicall = true,
+}: ReadCacheOptions = {}): ReadCache => {
+  const ttlByFunction = { ...DEFAULT_READ_CACHE_TTLS, ...ttls }
+  const entries = new Map<
+    string,
+    { chainId: SupportedChains; expiresAt: number; value: Promise<unknown> }
+  >()
+
+  return {
+    multicall,
+    read<T>(key: ReadCacheKey, load: () => Promise<T>): Promise<T> {
+      const id = serializeKey(key)
+      const cached = entries.get(id)
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value as Promise<T>
+      }
+
+      const ttl = ttlByFunction[key.functionName] ?? 0
+      // In flight until settled; cached entries expire `ttl` after loading.
+      const entry = {
+        chainId: key.chainId,
+        expiresAt: Infinity,
+        value: load(),
+      }
+      entries.set(id, entry)
+
+      entry.value.then(
+        () => {
+          if (entries.get(id) !== entry) return
+          if (ttl > 0) {
+            entry.expiresAt = Date.now() + ttl
+          } else {
+            entries.delete(id)
+          }
+        },
+        () => {
+          if (entries.get(id) === entry) entries.delete(id)
+        },
+      )
+
+      return entry.value as Promise<T>
+    },
+    invalidate(chainId) {
+      for (const [id, entry] of entries) {
+        if (chainId === undefined || entry.chainId === chainId) {
+          entries.delete(id)
+        }
+      }
+    },
+  }
+}
+
+const batchedClients = new WeakMap<PublicClient, PublicClient>()
+
+/**
+ * Returns a client sending requests through `client` that batches concurrent
+ * contract reads into a single multicall3 call. Reads fall back to plain
+ * `eth_call`s on chains without a multicall3 deployment.
+ */
+export const getMulticallClient = (client: PublicClient): PublicClient => {
+  let batched = batchedClients.get(client)
+  if (!batched) {
+    batched = createPublicClient({
+      chain: client.chain,
+      transport: custom({ request: client.request }, { retryCount: 0 }),
+      batch: { multicall: true },
+    }) as PublicClient
+    batchedClients.set(client, batched)
+  }
+  return batched
+}
@@ -0,0 +1,155 @@
+import { RpcUnavailableError } from "../errors"
+
+export const DEFAULT_MULTICALL_CHUNK_SIZE = 300
+export const DEFAULT_MULTICALL_CONCURRENCY = 3
+export const DEFAULT_EVENT_BATCH_SIZE = 10_000n
+export const DEFAULT_EVENT_LOOKBACK = 60n * 60n * 24n * 30n
+export const LOG_BATCH_CONCURRENCY_LIMIT = 3
+export const DEFAULT_CHAIN_READ_TIMEOUT_MS = 10_000
+
+export interface BlockRange {
+  from: bigint
+  to: bigint
+}
+
+export interface BlockRangeConfig {
+  batchSize: bigint
+  fromBlock: bigint
+  toBlock: bigint
+}
+
+/**
+ * Rejects with `RpcUnavailableError` when `promise` does not settle within `timeoutMs`.
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new RpcUnavailableError(message)),
+      timeoutMs,
+    )
+  })
+
+  try {
+    return await Promise.race([promise, timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export async function promisePool<T>(
+  tasks: Array<() => Promise<T>>,
+  concurrency: number,
+): Promise<T[]> {
+  if (tasks.length === 0) return []
+  const limit = Math.max(1, concurrency)
+  const results: T[] = new Array(tasks.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (true) {
+      const currentIndex = nextIndex++
+      if (currentIndex >= tasks.length) break
+      results[currentIndex] = await tasks[currentIndex]()
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(limit, tasks.length) }, () =>
+    worker(),
+  )
+  await Promise.all(workers)
+
+  return results
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size <= 0) {
+    throw new Error("chunk size must be greater than zero")
+  }
+
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export function createBlockRanges({
+  batchSize,
+  fromBlock,
+  toBlock,
+}: BlockRangeConfig): BlockRange[] {
+  if (batchSize <= 0n) {
+    throw new Error("batchSize must be greater than zero")
+  }
+  if (fromBlock < 0n) {
+    throw new Error("fromBlock must be zero or greater")
+  }
+  if (toBlock < fromBlock) {
+    throw new Error("toBlock must be greater than or equal to fromBlock")
+  }
+
+  const ranges: BlockRange[] = []
+  let rangeStart = fromBlock
+
+  while (rangeStart <= toBlock) {
+    const tentativeEnd = rangeStart + batchSize - 1n
+    const rangeEnd = tentativeEnd > toBlock ? toBlock : tentativeEnd
+    ranges.push({ from: rangeStart, to: rangeEnd })
+    if (rangeEnd === toBlock) {
+      break
+    }
+    rangeStart = rangeEnd + 1n
+  }
+
+  return ranges
+}
+
+export interface FetchInBlockBatchesParams<T> extends BlockRangeConfig {
+  concurrency?: number
+  promiseCreator: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+  onBatchFailure?: (error: unknown, range: BlockRange) => void
+}
+
+export async function fetchInBlockBatches<T>({
+  batchSize,
+  fromBlock,
+  toBlock,
+  concurrency = LOG_BATCH_CONCURRENCY_LIMIT,
+  promiseCreator,
+  onBatchFailure,
+}: FetchInBlockBatchesParams<T>): Promise<T[]> {
+  const ranges = createBlockRanges({ batchSize, fromBlock, toBlock })
+  if (ranges.length === 0) return []
+
+  const MAX_RETRIES = 3
+  const INITIAL_BACKOFF_MS = 1000
+
+  const tasks = ranges.map((range) => async () => {
+    let lastError: unknown
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        return await promiseCreator(range.from, range.to)
+      } catch (error) {
+        lastError = error
+        if (attempt < MAX_RETRIES) {
+          // Exponential backoff: 1s, 2s, 4s
+          const backoffMs = INITIAL_BACKOFF_MS * Math.pow(2, attempt)
+          await new Promise((resolve) => setTimeout(resolve, backoffMs))
+        }
+      }
+    }
+
+    // Report the range only after all retries are exhausted
+    onBatchFailure?.(lastError, range)
+    return [] as T[]
+  })
+
+  const results = await promisePool(tasks, concurrency)
+  return results.flat()
+}
@@ -0,0 +1,353 @@
+import {
+  createPublicClient,
+  custom,
+  http,
+  HttpRequestError,
+  TimeoutError,
+  type PublicClient,
+  type Transport,
+} from "viem"
+
+import { SupportedChains, chainConfigs, getViemChain } from "../constants"
+import { GoodSDKError, RpcUnavailableError } from "../errors"
+import { DEFAULT_CHAIN_READ_TIMEOUT_MS } from "./rpc"
+
+export const DEFAULT_RPC_RETRY_COUNT = 2
+export const DEFAULT_RPC_RETRY_DELAY_MS = 150
+export const DEFAULT_RPC_FAILURE_THRESHOLD = 3
+export const DEFAULT_RPC_COOLDOWN_MS = 30_000
+
+// Weight of the newest sample in the moving latency average.
+const LATENCY_SMOOTHING = 0.3
+
+/** Methods that can safely be sent again, possibly to another endpoint. */
+const IDEMPOTENT_RPC_METHODS = new Set([
+  "eth_blockNumber",
+  "eth_call",
+  "eth_chainId",
+  "eth_estimateGas",
+  "eth_feeHistory",
+  "eth_gasPrice",
+  "eth_getBalance",
+  "eth_getBlockByHash",
+  "eth_getBlockByNumber",
+  "eth_getCode",
+  "eth_getLogs",
+  "eth_getStorageAt",
+  "eth_getTransactionByHash",
+  "eth_getTransactionCount",
+  "eth_getTransactionReceipt",
+  "eth_maxPriorityFeePerGas",
+  "net_version",
+])
+
+// -32002 resource unavailable, -32005 limit exceeded.
+const RETRYABLE_RPC_CODES = new Set([-32002, -32005, 429])
+const RETRYABLE_MESSAGE =
+  /rate limit|too many requests|timed? ?out|transports\[i\] is not a function/i
+
+export interface RpcEndpointHealth {
+  url: string
+  /** True for URLs added with `addUrls`/`addRpcUrls`; these are preferred. */
+  custom: boolean
+  /** Moving average of successful response times, once measured. */
+  latencyMs?: number
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  /** Epoch ms until which the endpoint is skipped, while its circuit is open. */
+  circuitOpenUntil?: number
+  lastError?: string
+}
+
+export interface RpcPoolOptions {
+  /**
+   * Endpoints to use instead of the chain's configured `rpcUrls`. Without
+   * them the pool follows the configuration, including later `registerChain` calls.
+   */
+  urls?: string[]
+  /** Per-request timeout. Defaults to 10 seconds. */
+  timeoutMs?: number
+  /** Extra attempts for idempotent reads that fail with a transient error. Defaults to 2. */
+  retryCount?: number
+  /** Base delay before retrying an endpoint that was already tried. Defaults to 150 ms. */
+  retryDelayMs?: number
+  /** Consecutive transient failures that open an endpoint's circuit. Defaults to 3. */
+  failureThreshold?: number
+  /** How long an open circuit skips the endpoint. Defaults to 30 seconds. */
+  cooldownMs?: number
+  /** Builds the transport for one endpoint. Defaults to viem `http`. */
+  transport?: (url: string) => Transport
+}
+
+export interface RpcPool {
+  readonly chainId: SupportedChains
+  /** Public client whose requests are routed through the pool. */
+  readonly client: PublicClient
+  /** Sends one JSON-RPC request to the healthiest endpoint. */
+  request(args: { method: string; params?: unknown }): Promise<unknown>
+  /** Adds endpoints, ranked ahead of the defaults while they stay healthy. */
+  addUrls(urls: string[]): void
+  /** Endpoint health, best ranked first. */
+  getHealth(): RpcEndpointHealth[]
+}
+
+const findInCauses = (
+  error: unknown,
+  predicate: (err: any) => boolean,
+): boolean => {
+  let current: any = error
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (predicate(current)) return true
+    current = current.cause
+  }
+  return false
+}
+
+/**
+ * Returns true when an error is caused by the endpoint rather than the call
+ * itself (timeouts, 5xx, rate limits, network failures), so another attempt
+ * may succeed. Reverts and invalid params are never retryable.
+ */
+export const isRetryableRpcError = (error: unknown): boolean =>
+  findInCauses(error, (err) => {
+    if (err instanceof TimeoutError || err instanceof RpcUnavailableError) {
+      return true
+    }
+    if (err instanceof HttpRequestError) {
+      return err.status === undefined || err.status === 429 || err.status >= 500
+    }
+    if (RETRYABLE_RPC_CODES.has(err?.code)) return true
+    return (
+      !(err instanceof GoodSDKError) &&
+      typeof err?.message === "string" &&
+      RETRYABLE_MESSAGE.test(err.message)
+    )
+  })
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Creates a pool of RPC endpoints for one chain. Requests go to the healthiest
+ * endpoint (closed circuit, user-added, fewest recent failures, then lowest
+ * latency); endpoints that fail `failureThreshold` times in a row are skipped
+ * for `cooldownMs`.
+ * Idempotent reads that fail transiently are retried on the next endpoint.
+ * @param chainId - Chain served by the pool.
+ * @param options - Endpoints, timeouts and circuit breaker settings.
+ * @throws GoodSDKError with code `INVALID_ARGUMENT` when no endpoint is available.
+ */
+export const createRpcPool = (
+  chainId: SupportedChains,
+  {
+    urls: explicitUrls,
+    timeoutMs = DEFAULT_CHAIN_READ_TIMEOUT_MS,
+    retryCount = DEFAULT_RPC_RETRY_COUNT,
+    retryDelayMs = DEFAULT_RPC_RETRY_DELAY_MS,
+    failureThreshold = DEFAULT_RPC_FAILURE_THRESHOLD,
+    cooldownMs = DEFAULT_RPC_COOLDOWN_MS,
+    transport = (url) => http(url),
+  }: RpcPoolOptions = {},
+): RpcPool => {
+  let configuredUrls = explicitUrls ?? chainConfigs[chainId]?.rpcUrls ?? []
+  if (!configuredUrls.length) {
+    throw new GoodSDKError(
+      "INVALID_ARGUMENT",
+      `No RPC URLs configured for chain ${chainId}`,
+    )
+  }
+
+  const chain = getViemChain(chainId)
+  const endpoints: Array<{
+    health: RpcEndpointHealth
+    request: (args: { method: string; params?: unknown }) => Promise<unknown>
+  }> = []
+
+  const addEndpoint = (url: string, isCustom: boolean) => {
+    if (endpoints.some(({ health }) => health.url === url)) return
+
+    const { request } = transport(url)({
+      chain,
+      retryCount: 0,
+      timeout: timeoutMs,
+    })
+    endpoints.push({
+      health: {
+        url,
+        custom: isCustom,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+      },
+      request: request as (args: {
+        method: string
+        params?: unknown
+      }) => Promise<unknown>,
+    })
+  }
+
+  configuredUrls.forEach((url) => addEndpoint(url, false))
+
+  // Swaps the default endpoints when the chain was registered again, keeping
+  // the health of URLs that remain and every user-added endpoint.
+  const syncConfiguredUrls = () => {
+    const latest = chainConfigs[chainId]?.rpcUrls
+    if (explicitUrls || !latest?.length || latest === configuredUrls) return
+
+    configuredUrls = latest
+    for (let index = endpoints.length - 1; index >= 0; index--) {
+      const { health } = endpoints[index]
+      if (!health.custom && !latest.includes(health.url)) {
+        endpoints.splice(index, 1)
+      }
+    }
+    latest.forEach((url) => addEndpoint(url, false))
+  }
+
+  const rank = () => {
+    const now = Date.now()
+    const isOpen = ({ circuitOpenUntil }: RpcEndpointHealth) =>
+      circuitOpenUntil !== undefined && circuitOpenUntil > now
+
+    // Array.prototype.sort is stable, so ties keep insertion order.
+    return [...endpoints].sort(({ health: a }, { health: b }) => {
+      if (isOpen(a) !== isOpen(b)) return isOpen(a) ? 1 : -1
+      if (isOpen(a)) return a.circuitOpenUntil! - b.circuitOpenUntil!
+      if (a.custom !== b.custom) return a.custom ? -1 : 1
+      if (a.consecutiveFailures !== b.consecutiveFailures) {
+        return a.consecutiveFailures - b.consecutiveFailures
+      }
+      // Unmeasured endpoints rank first so every endpoint gets sampled.
+      return (a.latencyMs ?? 0) - (b.latencyMs ?? 0)
+    })
+  }
+
+  const recordSuccess = (health: RpcEndpointHealth, latencyMs: number) => {
+    health.successes++
+    health.consecutiveFailures = 0
+    health.circuitOpenUntil = undefined
+    health.latencyMs =
+      health.latencyMs === undefined
+        ? latencyMs
+        : health.latencyMs + LATENCY_SMOOTHING * (latencyMs - health.latencyMs)
+  }
+
+  const recordFailure = (health: RpcEndpointHealth, error: unknown) => {
+    health.failures++
+    health.consecutiveFailures++
+    health.lastError = (error as Error)?.message ?? String(error)
+    // A half-open endpoint that fails again reopens straight away.
+    if (
+      health.consecutiveFailures >= failureThreshold ||
+      health.circuitOpenUntil !== undefined
+    ) {
+      health.circuitOpenUntil = Date.now() + cooldownMs
+    }
+  }
+
+  const request = async (args: { method: string; params?: unknown }) => {
+    syncConfiguredUrls()
+    const attempts = IDEMPOTENT_RPC_METHODS.has(args.method)
+      ? retryCount + 1
+      : 1
+    const tried = new Set<RpcEndpointHealth>()
+    let lastError: unknown
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const ranked = rank()
+      const endpoint =
+        ranked.find(({ health }) => !tried.has(health)) ?? ranked[0]
+
+      if (tried.has(endpoint.health)) {
+        await sleep(retryDelayMs * 2 ** (attempt - 1))
+      }
+      tried.add(endpoint.health)
+
+      const startedAt = Date.now()
+      try {
+        const result = await endpoint.request(args)
+        recordSuccess(endpoint.health, Date.now() - startedAt)
+        return result
+      } catch (error) {
+        if (!isRetryableRpcError(error)) {
+          // The endpoint answered; the call itself failed (e.g. a revert).
+          recordSuccess(endpoint.health, Date.now() - startedAt)
+          throw error
+        }
+        recordFailure(endpoint.health, error)
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  const client = createPublicClient({
+    chain,
+    transport: custom({ request }, { retryCount: 0 }),
+  }) as PublicClient
+
+  return {
+    chainId,
+    client,
+    request,
+    addUrls: (newUrls) => newUrls.forEach((url) => addEndpoint(url, true)),
+    getHealth: () => {
+      syncConfiguredUrls()
+      return rank().map(({ health }) => ({ ...health }))
+    },
+  }
+}
+
+const rpcPools = new Map<SupportedChains, RpcPool>()
+
+/**
+ * Returns the pool shared by every SDK instance on `chainId`, so endpoint
+ * health learned by one instance benefits the others.
+ */
+export const getRpcPool = (chainId: SupportedChains): RpcPool => {
+  let pool = rpcPools.get(chainId)
+  if (!pool) {
+    pool = createRpcPool(chainId)
+    rpcPools.set(chainId, pool)
+  }
+  return pool
+}
+
+/**
+ * Adds RPC URLs (e.g. keyed endpoints of a paid provider) to the shared pool
+ * of a chain. They are preferred over the defaults while healthy.
+ * @param chainId - Chain the URLs serve.
+ * @param urls - JSON-RPC HTTP endpoints.
+ */
+export const addRpcUrls = (chainId: SupportedChains, urls: string[]) => {
+  getRpcPool(chainId).addUrls(urls)
+}
+
+export const extractErrorMessage = (error: unknown): string => {
+  const messages = new Set<string>()
+  const err = error as Record<string, any> | null | undefined
+
+  if (typeof err?.shortMessage === "string") {
+    messages.add(err.shortMessage)
+  }
+
+  if (typeof err?.message === "string") {
+    messages.add(err.message)
+  }
+
+  if (typeof err?.details === "string") {
+    messages.add(err.details)
+  }
+
+  const causeMessage = err?.cause?.message
+  if (typeof causeMessage === "string") {
+    messages.add(causeMessage)
+  }
+
+  if (!messages.size) {
+    return "Unknown error"
+  }
+
+  return Array.from(messages).join(" | ")
+}
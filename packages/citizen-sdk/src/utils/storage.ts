@@ -0,0 +1,125 @@
+/** Synchronous storage, such as `localStorage`. Shared by every SDK package. */
+export interface StorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
+/** Promise-based storage, such as React Native `AsyncStorage`. */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+}
+
+export type AnyStorage = StorageLike | AsyncStorageLike
+
+/** The subset of `node:fs/promises` used by {@link createFileStorage}. */
+export interface FileSystemLike {
+  readFile(path: string, encoding: "utf8"): Promise<string>
+  writeFile(path: string, data: string): Promise<void>
+  rename(oldPath: string, newPath: string): Promise<void>
+}
+
+export interface FileStorageOptions {
+  /** Defaults to `node:fs/promises`, loaded on first use. */
+  fs?: FileSystemLike
+}
+
+/**
+ * Creates a storage that keeps values in memory for the lifetime of the process.
+ */
+export const createMemoryStorage = (): StorageLike => {
+  const items = new Map<string, string>()
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+const loadNodeFs = async (): Promise<FileSystemLike> => {
+  // Kept out of static imports so browser bundles never resolve `node:fs`.
+  const specifier = "node:fs/promises"
+  return import(/* @vite-ignore */ specifier)
+}
+
+/**
+ * Creates a storage persisted as a JSON object in `filePath`, for Node workers
+ * that need values to survive restarts. Writes are serialised and replace the
+ * file atomically.
+ * @param filePath - JSON file to read and write. Created on first write.
+ * @param options - Optional file system implementation.
+ */
+export const createFileStorage = (
+  filePath: string,
+  { fs }: FileStorageOptions = {},
+): AsyncStorageLike => {
+  let fsPromise: Promise<FileSystemLike> | undefined
+  let pending: Promise<unknown> = Promise.resolve()
+
+  const getFs = () => (fsPromise ??= fs ? Promise.resolve(fs) : loadNodeFs())
+
+  const load = async (): Promise<Record<string, string>> => {
+    try {
+      return JSON.parse(await (await getFs()).readFile(filePath, "utf8"))
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return {}
+      throw error
+    }
+  }
+
+  const update = (mutate: (items: Record<string, string>) => void) => {
+    const next = pending.then(async () => {
+      const items = await load()
+      mutate(items)
+
+      const tempPath = `${filePath}.tmp`
+      const fileSystem = await getFs()
+      await fileSystem.writeFile(tempPath, JSON.stringify(items))
+      await fileSystem.rename(tempPath, filePath)
+    })
+    pending = next.catch(() => undefined)
+    return next
+  }
+
+  return {
+    async getItem(key) {
+      await pending
+      return (await load())[key] ?? null
+    },
+    setItem: (key, value) =>
+      update((items) => {
+        items[key] = value
+      }),
+    removeItem: (key) =>
+      update((items) => {
+        delete items[key]
+      }),
+  }
+}
+
+const sharedMemoryStorage = createMemoryStorage()
+
+/**
+ * Returns `localStorage` when it is usable, otherwise a process-wide in-memory
+ * storage, so Node and React Native still get throttling without configuration.
+ */
+export const getDefaultStorage = (): StorageLike => {
+  const { localStorage } = globalThis as { localStorage?: StorageLike }
+  if (!localStorage) return sharedMemoryStorage
+
+  try {
+    const key = "goodDollarStorageCheck"
+    localStorage.setItem(key, key)
+    localStorage.removeItem(key)
+    return localStorage
+  } catch {
+    return sharedMemoryStorage
+  }
+}
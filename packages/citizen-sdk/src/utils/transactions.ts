@@ -0,0 +1,206 @@
+import {
+  WaitForTransactionReceiptTimeoutError,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type ReplacementReturnType,
+  type SimulateContractParameters,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem"
+import { waitForTransactionReceipt } from "viem/actions"
+
+import {
+  SimulationRevertedError,
+  TransactionFailedError,
+  toGoodSDKError,
+} from "../errors"
+
+export const DEFAULT_CONFIRMATIONS = 1
+export const DEFAULT_TRANSACTION_TIMEOUT_MS = 3 * 60_000
+
+/** The request produced by simulation, ready to be sent. */
+export type SimulatedRequest = Parameters<WalletClient["writeContract"]>[0]
+
+export interface TransactionHooks {
+  /** Called once the call simulated successfully, before anything is signed. */
+  onSimulated?: (request: SimulatedRequest) => void
+  onHash?: (hash: Hash) => void
+  /** Called when the transaction is sped up, repriced or cancelled by the sender. */
+  onReplaced?: (replacement: ReplacementReturnType) => void
+  /** Called with the final receipt, including reverted ones. */
+  onReceipt?: (receipt: TransactionReceipt) => void
+}
+
+export interface TransactionOptions extends TransactionHooks {
+  /** Blocks to wait for after inclusion. Defaults to 1. */
+  confirmations?: number
+  /** How long to wait for the receipt. Defaults to 3 minutes. */
+  timeoutMs?: number
+  /** Receipt polling interval. Defaults to the public client's. */
+  pollingIntervalMs?: number
+}
+
+export interface SubmitTransactionParameters extends TransactionOptions {
+  publicClient: PublicClient
+  walletClient: WalletClient<any, Chain | undefined, Account | undefined>
+  account: Address | Account
+  params: SimulateContractParameters
+  /**
+   * Sends the simulated request and returns its hash. Defaults to
+   * `walletClient.writeContract`; custodial SDKs sign locally instead.
+   */
+  send?: (request: SimulatedRequest) => Promise<Hash>
+}
+
+/**
+ * Replays a reverted transaction's call at its block to recover the revert reason.
+ */
+const decodeRevertReason = async (
+  publicClient: PublicClient,
+  account: Address | Account,
+  params: SimulateContractParameters,
+  blockNumber: bigint,
+): Promise<string | undefined> => {
+  try {
+    // viem's overloads reject `blockNumber` next to the generic params union.
+    await publicClient.simulateContract({
+      ...params,
+      account,
+      blockNumber,
+    } as any)
+  } catch (error) {
+    const decoded = toGoodSDKError(error, "Transaction reverted")
+    if (decoded instanceof SimulationRevertedError) return decoded.reason
+  }
+  return undefined
+}
+
+/**
+ * Runs the transaction lifecycle shared by every SDK: simulate, send, follow
+ * replacements, wait for `confirmations` within `timeoutMs`, and decode reverts.
+ * @param parameters - Clients, account, contract call, lifecycle hooks and limits.
+ * @returns The receipt of the mined transaction, or of its repriced replacement.
+ * @throws SimulationRevertedError if the call reverts in simulation, UserRejectedError if the
+ * wallet declines, TransactionFailedError if it reverts on chain, is cancelled or replaced by
+ * a different transaction, or times out.
+ */
+export async function submitTransaction({
+  publicClient,
+  walletClient,
+  account,
+  params,
+  send = (request) => walletClient.writeContract(request),
+  confirmations = DEFAULT_CONFIRMATIONS,
+  timeoutMs = DEFAULT_TRANSACTION_TIMEOUT_MS,
+  pollingIntervalMs,
+  onSimulated,
+  onHash,
+  onReplaced,
+  onReceipt,
+}: SubmitTransactionParameters): Promise<TransactionReceipt> {
+  const { request } = await publicClient
+    .simulateContract({ ...params, account })
+    .catch((error) => {
+      throw toGoodSDKError(error, "Simulation failed", "SIMULATION_REVERTED")
+    })
+  onSimulated?.(request as SimulatedRequest)
+
+  const hash = await send(request as SimulatedRequest).catch((error) => {
+    throw toGoodSDKError(
+      error,
+      "Transaction submission failed",
+      "TRANSACTION_FAILED",
+    )
+  })
+  onHash?.(hash)
+
+  let replacement: ReplacementReturnType | undefined
+  const receipt = await waitForTransactionReceipt(publicClient, {
+    hash,
+    confirmations,
+    timeout: timeoutMs,
+    pollingInterval: pollingIntervalMs,
+    onReplaced: (replaced) => {
+      replacement = replaced as ReplacementReturnType
+      onReplaced?.(replacement)
+    },
+  }).catch((error) => {
+    if (error instanceof WaitForTransactionReceiptTimeoutError) {
+      throw new TransactionFailedError(
+        `Transaction ${hash} was not confirmed within ${timeoutMs / 1000}s; it may have been dropped.`,
+        hash,
+        undefined,
+        { cause: error },
+      )
+    }
+    throw toGoodSDKError(
+      error,
+      "Failed to wait for transaction",
+      "RPC_UNAVAILABLE",
+    )
+  })
+  onReceipt?.(receipt)
+
+  // A repriced replacement is the same call; a cancelled or replaced one mined
+  // a different transaction under this nonce.
+  if (replacement && replacement.reason !== "repriced") {
+    throw new TransactionFailedError(
+      `Transaction ${hash} was ${replacement.reason} by transaction ${receipt.transactionHash}.`,
+      hash,
+    )
+  }
+
+  if (receipt.status === "reverted") {
+    const reason = await decodeRevertReason(
+      publicClient,
+      account,
+      params,
+      receipt.blockNumber,
+    )
+    throw new TransactionFailedError(
+      `Transaction ${receipt.transactionHash} reverted${reason ? `: ${reason}` : ""}.`,
+      receipt.transactionHash,
+      reason,
+    )
+  }
+
+  return receipt
+}
+
+type TransactionHook<K extends keyof TransactionHooks> = (
+  value: Parameters<NonNullable<TransactionHooks[K]>>[0],
+) => void
+
+/**
+ * Merges transaction options left to right. Limits from later options win
+ * unless they are `undefined`, while hooks from every options object are all called.
+ */
+export const mergeTransactionOptions = (
+  ...options: Array<TransactionOptions | undefined>
+): TransactionOptions => {
+  const defined = options.filter(
+    (option): option is TransactionOptions => option !== undefined,
+  )
+  const limits: TransactionOptions = Object.fromEntries(
+    defined.flatMap((option) =>
+      Object.entries(option).filter(([, value]) => value !== undefined),
+    ),
+  )
+  const chain =
+    <K extends keyof TransactionHooks>(hook: K): TransactionHook<K> =>
+    (value) =>
+      defined.forEach((option) =>
+        (option[hook] as TransactionHook<K> | undefined)?.(value),
+      )
+
+  return {
+    ...limits,
+    onSimulated: chain("onSimulated"),
+    onHash: chain("onHash"),
+    onReplaced: chain("onReplaced"),
+    onReceipt: chain("onReceipt"),
+  }
+}
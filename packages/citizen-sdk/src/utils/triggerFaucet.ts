@@ -1,8 +1,50 @@
 // GoodSDKs/packages/citizen-sdk/src/utils/triggerFaucet.ts
 import type { Address, PublicClient, WalletClient, Chain, Account } from "viem"
-import { waitForTransactionReceipt } from "viem/actions"
 import { Envs, faucetABI, chainConfigs } from "../constants"
 import { SupportedChains } from "../types"
+import {
+  FaucetError,
+  type GoodSDKError,
+  GoodServerError,
+  InsufficientFundsError,
+  MissingConfigurationError,
+  toGoodSDKError,
+} from "../errors"
+import { getRpcPool } from "./rpcPool"
+import { type AnyStorage, getDefaultStorage } from "./storage"
+import {
+  submitTransaction,
+  type SubmitTransactionParameters,
+  type TransactionOptions,
+} from "./transactions"
+
+const FAUCET_THROTTLE_KEY_PREFIX = "goodDollarFaucetLastToppedUtcMs"
+
+/** Storage key holding the last top-up time for an account on a chain. */
+export const getFaucetThrottleKey = (
+  chainId: SupportedChains,
+  account: Address,
+): string => `${FAUCET_THROTTLE_KEY_PREFIX}_${chainId}_${account.toLowerCase()}`
+
+const readLastTopped = async (
+  storage: AnyStorage,
+  key: string,
+): Promise<number> => {
+  try {
+    return Number(await storage.getItem(key)) || 0
+  } catch (error) {
+    console.warn("Failed to read faucet throttle", error)
+    return 0
+  }
+}
+
+const markTopped = async (storage: AnyStorage, key: string): Promise<void> => {
+  try {
+    await storage.setItem(key, String(Date.now()))
+  } catch (error) {
+    console.warn("Failed to persist faucet throttle", error)
+  }
+}
 
 export type TriggerFaucetResult =
   | "skipped" // throttled, not eligible, or balance sufficient
@@ -10,14 +52,39 @@ export type TriggerFaucetResult =
   | "topped_via_api" // success via backend fallback
   | "error" // tried and failed
 
+export type FaucetSkipReason =
+  | "throttled" // topped or checked within throttleMs
+  | "balance_sufficient" // balance already covers the claim
+  | "cannot_top" // faucet canTop returned false
+
+export interface FaucetOutcome {
+  result: TriggerFaucetResult
+  /** Which top-up path produced the result. Unset when skipped before trying. */
+  path?: "contract" | "api"
+  skipReason?: FaucetSkipReason
+  /** Faucet `topWallet` transaction, when sent from the wallet. */
+  txHash?: `0x${string}`
+  balanceBefore?: bigint
+  /** Read after a successful top-up. API top-ups may not be mined yet. */
+  balanceAfter?: bigint
+  gasEstimate?: bigint
+  /** Why the contract path failed, when the API fallback was used. */
+  contractError?: GoodSDKError
+  /** Why the top-up failed, set when `result` is "error". */
+  error?: GoodSDKError
+}
+
 export interface TriggerFaucetParams {
   chainId: SupportedChains
   account: Address
-  publicClient: PublicClient
+  publicClient?: PublicClient // default: the chain's shared RPC pool
   walletClient: WalletClient<any, Chain | undefined, Account | undefined>
   faucetAddress: Address
   env: string // "production" | "staging" | etc.
   throttleMs?: number // default 1h
+  storage?: AnyStorage // default localStorage, else in-memory
+  send?: SubmitTransactionParameters["send"] // default walletClient.writeContract
+  transactionOptions?: TransactionOptions // confirmations, timeout and hooks
 }
 
 /**
@@ -31,7 +98,7 @@ export interface TriggerFaucetParams {
  * @returns True if the user can claim, false otherwise.
  * @throws If gas price cannot be determined or balance check fails.
  */
-async function canClaim(
+export async function canClaim(
   chainId: SupportedChains,
   account: Address,
   publicClient: PublicClient,
@@ -41,7 +108,7 @@ async function canClaim(
 ): Promise<boolean> {
   const gasPrice = chainConfigs[chainId]?.defaultGasPrice ?? undefined
   if (!gasPrice) {
-    throw new Error(
+    throw new MissingConfigurationError(
       "Cannot determine gasPrice for the current connected chain.",
     )
   }
@@ -49,7 +116,7 @@ async function canClaim(
   const claimGasBuffer = chainConfigs[chainId]?.claimGasBuffer ?? undefined
 
   if (claimGasBuffer == null) {
-    throw new Error(
+    throw new MissingConfigurationError(
       "Cannot determine gas buffer requirement for the current connected chain.",
     )
   }
@@ -71,26 +138,29 @@ async function canClaim(
  * 2) If eligible (canTop && balance < toppingAmount), try on-chain top-up (user signs).
  * 3) Guard against gas > toppingAmount and insufficient gas to publish tx.
  * 4) If on-chain path fails or cannot publish/sign, fallback to backend /verify/topWallet.
- * 5) Throttle tops to once per chain per throttleMs via localStorage.
+ * 5) Throttle tops to once per account and chain per throttleMs via `storage`.
  */
 export async function triggerFaucet({
   chainId,
   account,
-  publicClient,
+  publicClient = getRpcPool(chainId).client,
   walletClient,
   faucetAddress,
   env,
   throttleMs = 60 * 60 * 1000,
-}: TriggerFaucetParams): Promise<TriggerFaucetResult> {
-  // Throttle via localStorage (browser env only)
-  if (typeof localStorage !== "undefined") {
-    const key = `goodDollarFaucetLastToppedUtcMs_${chainId}`
-    const last = localStorage.getItem(key)
-    if (last && Date.now() < Number(last) + throttleMs) {
-      return "skipped"
-    }
+  storage = getDefaultStorage(),
+  send,
+  transactionOptions,
+}: TriggerFaucetParams): Promise<FaucetOutcome> {
+  const throttleKey = getFaucetThrottleKey(chainId, account)
+  const last = await readLastTopped(storage, throttleKey)
+  if (Date.now() < last + throttleMs) {
+    return { result: "skipped", skipReason: "throttled" }
   }
 
+  let balanceBefore: bigint | undefined
+  let gasEstimate: bigint | undefined
+
   try {
     // Read wallet balance + faucet eligibility/amount
     const [balance, canTop, toppingAmount, minTopping] = await Promise.all([
@@ -117,6 +187,7 @@ export async function triggerFaucet({
         account,
       } as any) as Promise<number>,
     ])
+    balanceBefore = balance
 
     // Check if user already has sufficient balance using the canClaim logic
     const hasGoodBalance = await canClaim(
@@ -128,60 +199,84 @@ export async function triggerFaucet({
       minTopping,
     )
 
-    // Skip if faucet won't top, already above threshold, or has sufficient balance for claiming
-    if (!canTop || balance >= toppingAmount || hasGoodBalance) {
-      if (typeof localStorage !== "undefined") {
-        localStorage.setItem(
-          `goodDollarFaucetLastToppedUtcMs_${chainId}`,
-          String(Date.now()),
-        )
+    // Skip if already above threshold, has sufficient balance for claiming, or faucet won't top
+    if (balance >= toppingAmount || hasGoodBalance || !canTop) {
+      await markTopped(storage, throttleKey)
+      return {
+        result: "skipped",
+        skipReason:
+          balance >= toppingAmount || hasGoodBalance
+            ? "balance_sufficient"
+            : "cannot_top",
+        balanceBefore,
       }
-      return "skipped"
     }
 
-    // Simulate faucet call for gas estimate + revert check
-    const { request } = await publicClient.simulateContract({
-      address: faucetAddress,
-      abi: faucetABI,
-      functionName: "topWallet",
-      args: [account],
-      account,
-      chain: walletClient.chain,
-    })
+    gasEstimate = await publicClient
+      .estimateContractGas({
+        address: faucetAddress,
+        abi: faucetABI,
+        functionName: "topWallet",
+        args: [account],
+        account,
+      })
+      .catch(() => undefined)
 
     // Optional guards: gas should be payable and <= toppingAmount
-    const gasLimit: bigint | undefined = (request as any)?.gas
-    if (typeof gasLimit === "bigint") {
-      if (balance < gasLimit)
-        throw new Error("Not enough balance to pay for gas")
-      if (gasLimit > toppingAmount)
-        throw new Error("Gas limit exceeds topping amount")
+    if (typeof gasEstimate === "bigint") {
+      if (balance < gasEstimate)
+        throw new InsufficientFundsError("Not enough balance to pay for gas")
+      if (gasEstimate > toppingAmount)
+        throw new FaucetError("Gas limit exceeds topping amount")
     }
 
-    // Send tx (user signs)
-    const hash = await walletClient.writeContract(request)
-
-    // Small delay before polling
-    await new Promise((r) => setTimeout(r, 2000))
-
-    await waitForTransactionReceipt(publicClient, {
-      hash,
-      retryDelay: 3000,
+    // Simulate (revert check), send (user signs) and wait for the receipt
+    const { transactionHash: hash } = await submitTransaction({
+      publicClient,
+      walletClient,
+      account,
+      params: {
+        address: faucetAddress,
+        abi: faucetABI,
+        functionName: "topWallet",
+        args: [account],
+        chain: walletClient.chain,
+      },
+      send,
+      ...transactionOptions,
     })
 
-    if (typeof localStorage !== "undefined") {
-      localStorage.setItem(
-        `goodDollarFaucetLastToppedUtcMs_${chainId}`,
-        String(Date.now()),
-      )
+    await markTopped(storage, throttleKey)
+    return {
+      result: "topped_via_contract",
+      path: "contract",
+      txHash: hash,
+      balanceBefore,
+      balanceAfter: await readBalance(publicClient, account),
+      gasEstimate,
     }
-    return "topped_via_contract"
   } catch (err) {
     // Fallback to backend API
-    console.error("Faucet topWallet error, falling back to API", err)
+    const contractError = toGoodSDKError(
+      err,
+      "Faucet topWallet failed",
+      "FAUCET_FAILED",
+    )
+    console.error("Faucet topWallet error, falling back to API", contractError)
+    const apiOutcome = {
+      path: "api",
+      balanceBefore,
+      gasEstimate,
+      contractError,
+    } as const
+
     try {
       const { backend } = Envs[env as keyof typeof Envs] || {}
-      if (!backend) return "error"
+      if (!backend) {
+        throw new MissingConfigurationError(
+          `No backend configured for env "${env}" to fall back to.`,
+        )
+      }
 
       const response = await fetch(`${backend}/verify/topWallet`, {
         method: "POST",
@@ -189,17 +284,35 @@ export async function triggerFaucet({
         body: JSON.stringify({ chainId, account }),
       })
 
-      if (!response.ok) return "error"
-
-      if (typeof localStorage !== "undefined") {
-        localStorage.setItem(
-          `goodDollarFaucetLastToppedUtcMs_${chainId}`,
-          String(Date.now()),
+      if (!response.ok) {
+        throw new GoodServerError(
+          `Faucet API responded with ${response.status}`,
+          response.status,
         )
       }
-      return "topped_via_api"
-    } catch {
-      return "error"
+
+      await markTopped(storage, throttleKey)
+      return {
+        ...apiOutcome,
+        result: "topped_via_api",
+        balanceAfter: await readBalance(publicClient, account),
+      }
+    } catch (apiErr) {
+      return {
+        ...apiOutcome,
+        result: "error",
+        error: toGoodSDKError(
+          apiErr,
+          "Faucet API request failed",
+          "FAUCET_FAILED",
+        ),
+      }
     }
   }
 }
+
+const readBalance = (
+  publicClient: PublicClient,
+  account: Address,
+): Promise<bigint | undefined> =>
+  publicClient.getBalance({ address: account }).catch(() => undefined)
@@ -0,0 +1,149 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { celo } from "viem/chains"
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  ClaimSDK,
+  IdentitySDK,
+  SupportedChains,
+  type ClaimHistoryEntry,
+} from "../src"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const root = "0x00000000000000000000000000000000000000a1" as Address
+
+// Celo days start at 12:00 UTC, Fuse days at 00:00 UTC.
+const celoPeriodStart = Date.UTC(2026, 0, 1, 12)
+const fusePeriodStart = celoPeriodStart - 100 * DAY + 12 * HOUR
+const celoCurrentDay = 10
+
+const createClaimSDK = () => {
+  const publicClient = createPublicClient({
+    chain: celo,
+    transport: http(),
+  }) as PublicClient
+  const walletClient = createWalletClient({
+    chain: celo,
+    transport: http(),
+    account: privateKeyToAccount(generatePrivateKey()),
+  })
+  return new ClaimSDK({
+    publicClient,
+    walletClient,
+    identitySDK: new IdentitySDK({
+      publicClient,
+      walletClient,
+      env: "production",
+    }),
+    env: "production",
+  })
+}
+
+const claim = (
+  chainId: SupportedChains,
+  timestampMs: number,
+  amount: bigint,
+): ClaimHistoryEntry => ({
+  chainId,
+  account: root,
+  amount,
+  blockNumber: 1n,
+  transactionHash: `0x${"ab".repeat(32)}`,
+  timestamp: new Date(timestampMs),
+})
+
+const mockChains = (
+  sdk: ClaimSDK,
+  claims: ClaimHistoryEntry[],
+  fusePeriod: () => Promise<bigint>,
+) => {
+  vi.spyOn(sdk, "getClaimHistory").mockResolvedValue({
+    root,
+    claims,
+    failures: [],
+  })
+  vi.spyOn(sdk as any, "readContract").mockImplementation(
+    async (params: any, chainId = SupportedChains.CELO) => {
+      if (params.functionName === "currentDay") return BigInt(celoCurrentDay)
+      return chainId === SupportedChains.FUSE
+        ? fusePeriod()
+        : BigInt(celoPeriodStart / 1000)
+    },
+  )
+}
+
+describe("ClaimSDK.getClaimerStats", () => {
+  it("buckets claims with the period start of their own chain", async () => {
+    const sdk = createClaimSDK()
+    mockChains(
+      sdk,
+      [
+        claim(
+          SupportedChains.CELO,
+          celoPeriodStart + 8 * DAY + HOUR,
+          10n ** 18n,
+        ),
+        // Past midnight UTC: Fuse's current day, though still Celo's previous one.
+        claim(
+          SupportedChains.FUSE,
+          celoPeriodStart + 9 * DAY + 13 * HOUR,
+          100n,
+        ),
+      ],
+      async () => BigInt(fusePeriodStart / 1000),
+    )
+
+    const stats = await sdk.getClaimerStats()
+
+    expect(stats).toMatchObject({
+      currentDay: celoCurrentDay,
+      claimedToday: true,
+      currentStreak: 1,
+      daysClaimed: 2,
+      daysMissed: 1,
+      totalClaimed: 2,
+      failures: [],
+    })
+  })
+
+  it("reports chains whose period cannot be read and keeps their totals", async () => {
+    const sdk = createClaimSDK()
+    mockChains(
+      sdk,
+      [
+        claim(
+          SupportedChains.CELO,
+          celoPeriodStart + 9 * DAY + HOUR,
+          10n ** 18n,
+        ),
+        claim(
+          SupportedChains.FUSE,
+          celoPeriodStart + 9 * DAY + 13 * HOUR,
+          100n,
+        ),
+      ],
+      async () => {
+        throw new Error("fuse rpc down")
+      },
+    )
+
+    const stats = await sdk.getClaimerStats()
+
+    expect(stats).toMatchObject({
+      claimedToday: false,
+      currentStreak: 1,
+      daysClaimed: 1,
+      totalClaimed: 2,
+      failures: [{ chainId: SupportedChains.FUSE }],
+    })
+    expect(stats.chains).toHaveLength(2)
+  })
+})
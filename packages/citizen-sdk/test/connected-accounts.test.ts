@@ -1,13 +1,15 @@
 import { describe, it, expect, beforeAll } from "vitest"
 import {
   createPublicClient,
+  createTestClient,
   createWalletClient,
   custom,
   http,
+  parseEther,
   type Address,
   zeroAddress,
 } from "viem"
-import { privateKeyToAccount } from "viem/accounts"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
 import { mainnet, celo } from "viem/chains"
 import { ClaimSDK } from "../src/sdks/viem-claim-sdk"
 import { IdentitySDK } from "../src/sdks/viem-identity-sdk"
@@ -23,6 +25,9 @@ if (!MAIN_ACCOUNT || !CONNECTED_ACCOUNT || !NON_WHITELISTED_ACCOUNT) {
 
 const RPC_URL = process.env.RPC_URL || "https://forno.celo.org"
 
+// Anvil/Hardhat node forked from Celo (e.g. `anvil --fork-url https://forno.celo.org`)
+const LOCAL_FORK_RPC_URL = process.env.LOCAL_FORK_RPC_URL
+
 describe("Connected Accounts Flow", () => {
   let identitySDK: IdentitySDK
   let claimSDK: ClaimSDK
@@ -112,3 +117,87 @@ describe("Connected Accounts Flow", () => {
     expect(["can_claim", "already_claimed"]).toContain(status.status)
   })
 })
+
+describe.skipIf(!LOCAL_FORK_RPC_URL)("Connected Accounts write flow", () => {
+  let identitySDK: IdentitySDK
+  let publicClient: ReturnType<typeof createPublicClient>
+  const secondaryAccount = privateKeyToAccount(generatePrivateKey()).address
+
+  beforeAll(async () => {
+    const testClient = createTestClient({
+      chain: celo,
+      mode: "anvil",
+      transport: http(LOCAL_FORK_RPC_URL),
+    })
+
+    // Send transactions as the whitelisted root without its private key
+    await testClient.impersonateAccount({ address: MAIN_ACCOUNT as Address })
+    await testClient.setBalance({
+      address: MAIN_ACCOUNT as Address,
+      value: parseEther("10"),
+    })
+
+    publicClient = createPublicClient({
+      chain: celo,
+      transport: http(LOCAL_FORK_RPC_URL),
+    })
+
+    const walletClient = createWalletClient({
+      chain: celo,
+      transport: http(LOCAL_FORK_RPC_URL),
+      account: MAIN_ACCOUNT as Address,
+    })
+
+    identitySDK = new IdentitySDK({
+      account: MAIN_ACCOUNT as Address,
+      publicClient: publicClient as any,
+      walletClient,
+      env: "production",
+      // Reads and receipt polling must hit the fork, not the public RPC pool
+      rpcPool: false,
+    })
+  })
+
+  it("should connect a secondary account to the main account", async () => {
+    const fromBlock = await publicClient.getBlockNumber()
+    const receipt = await identitySDK.connectAccount(secondaryAccount)
+    expect(receipt.status).toBe("success")
+
+    const { isWhitelisted, root } =
+      await identitySDK.getWhitelistedRoot(secondaryAccount)
+    expect(isWhitelisted).toBe(true)
+    expect(root.toLowerCase()).toBe(MAIN_ACCOUNT.toLowerCase())
+
+    const connected = await identitySDK.listConnectedAccounts(
+      MAIN_ACCOUNT as Address,
+      { fromBlock },
+    )
+    expect(connected.map((a) => a.toLowerCase())).toContain(
+      secondaryAccount.toLowerCase(),
+    )
+  })
+
+  it("should reject connecting an already connected account", async () => {
+    await expect(identitySDK.connectAccount(secondaryAccount)).rejects.toThrow(
+      /already connected/,
+    )
+  })
+
+  it("should disconnect the secondary account", async () => {
+    const receipt = await identitySDK.disconnectAccount(secondaryAccount)
+    expect(receipt.status).toBe("success")
+
+    const { isWhitelisted, root } =
+      await identitySDK.getWhitelistedRoot(secondaryAccount)
+    expect(isWhitelisted).toBe(false)
+    expect(root).toBe(zeroAddress)
+
+    const connected = await identitySDK.listConnectedAccounts(
+      MAIN_ACCOUNT as Address,
+      { fromBlock: (await publicClient.getBlockNumber()) - 10n },
+    )
+    expect(connected.map((a) => a.toLowerCase())).not.toContain(
+      secondaryAccount.toLowerCase(),
+    )
+  })
+})
@@ -0,0 +1,76 @@
+import {
+  createPublicClient,
+  custom,
+  encodeErrorResult,
+  HttpRequestError,
+  parseAbi,
+} from "viem"
+import { celo } from "viem/chains"
+import { describe, expect, it } from "vitest"
+
+import {
+  ContractReadRevertedError,
+  RpcUnavailableError,
+  SimulationRevertedError,
+  toGoodSDKError,
+  toReadError,
+} from "../src"
+
+const revertingClient = createPublicClient({
+  chain: celo,
+  transport: custom(
+    {
+      request: async () => {
+        throw Object.assign(new Error("execution reverted"), {
+          code: 3,
+          data: encodeErrorResult({
+            abi: parseAbi(["error Error(string)"]),
+            errorName: "Error",
+            args: ["not deployed"],
+          }),
+        })
+      },
+    },
+    { retryCount: 0 },
+  ),
+})
+
+const readRevert = () =>
+  revertingClient
+    .readContract({
+      address: "0x43d72Ff17701B2DA814620735C39C620Ce0ea4A1",
+      abi: parseAbi(["function periodStart() view returns (uint256)"]),
+      functionName: "periodStart",
+    })
+    .catch((error) => error)
+
+describe("toReadError", () => {
+  it("maps view reverts to CONTRACT_READ_REVERTED", async () => {
+    const error = await readRevert()
+
+    const readError = toReadError(error, "Failed to read periodStart")
+    expect(readError).toBeInstanceOf(ContractReadRevertedError)
+    expect(readError).toMatchObject({
+      code: "CONTRACT_READ_REVERTED",
+      reason: "not deployed",
+      cause: error,
+    })
+    // Transaction paths keep classifying reverts as simulation failures.
+    expect(toGoodSDKError(error, "Simulation failed")).toBeInstanceOf(
+      SimulationRevertedError,
+    )
+  })
+
+  it("falls back to RPC_UNAVAILABLE and keeps SDK errors", () => {
+    const httpError = new HttpRequestError({ url: "https://rpc.example" })
+    expect(toReadError(httpError, "Read failed")).toBeInstanceOf(
+      RpcUnavailableError,
+    )
+    expect(toReadError(new Error("boom"), "Read failed").code).toBe(
+      "RPC_UNAVAILABLE",
+    )
+
+    const simulation = new SimulationRevertedError("Simulation failed")
+    expect(toReadError(simulation, "Read failed")).toBe(simulation)
+  })
+})
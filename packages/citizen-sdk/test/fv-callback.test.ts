@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createMemoryStorage } from "../src"
+import {
+  FV_PENDING_MAX_AGE_MS,
+  appendFVNonce,
+  createFVCallbackNonce,
+  parseFVCallback,
+  savePendingFVRequest,
+  stripFVCallbackParams,
+} from "../src/utils/fvCallback"
+import {
+  openFVPopup,
+  parseFVPopupMessage,
+  waitForFVPopup,
+} from "../src/utils/popup"
+
+const account = "0x00000000000000000000000000000000000000a1"
+const appUrl = "https://app.example/claim?tab=1"
+
+const callback = (nonce: string, extra = "") =>
+  `${appendFVNonce(appUrl, nonce)}&verified=true${extra}`
+
+describe("FV redirect callback", () => {
+  beforeEach(() => {
+    vi.stubGlobal("sessionStorage", createMemoryStorage())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  const savePending = (nonce: string, createdAt = Date.now()) =>
+    savePendingFVRequest({
+      nonce,
+      account,
+      chainId: 42220,
+      createdAt,
+      state: { step: "claim" },
+    })
+
+  it("creates unpredictable callback nonces", () => {
+    const nonces = new Set(Array.from({ length: 50 }, createFVCallbackNonce))
+    expect(nonces.size).toBe(50)
+    expect([...nonces][0]).toMatch(/^[0-9a-f]{32}$/)
+  })
+
+  it("matches a pending request once and restores its state", () => {
+    savePending("n1")
+
+    expect(parseFVCallback(callback("n1"))).toMatchObject({
+      isCallback: true,
+      valid: true,
+      verified: true,
+      account,
+      chainId: 42220,
+      state: { step: "claim" },
+    })
+    // Consumed: the same callback cannot be replayed.
+    expect(parseFVCallback(callback("n1"))).toMatchObject({
+      valid: false,
+      invalidReason: "unknown_nonce",
+    })
+  })
+
+  it("rejects callbacks that do not match a valid pending request", () => {
+    expect(parseFVCallback(`${appUrl}&verified=true`)).toMatchObject({
+      isCallback: true,
+      valid: false,
+      invalidReason: "missing_nonce",
+    })
+
+    savePending("n1")
+    expect(parseFVCallback(callback("other"))).toMatchObject({
+      valid: false,
+      invalidReason: "unknown_nonce",
+    })
+
+    expect(
+      parseFVCallback(
+        callback("n1", "&account=0x00000000000000000000000000000000000000b2"),
+      ),
+    ).toMatchObject({ valid: false, invalidReason: "account_mismatch" })
+
+    savePending("n2")
+    expect(parseFVCallback(callback("n2", "&chain=122"))).toMatchObject({
+      valid: false,
+      invalidReason: "chain_mismatch",
+    })
+  })
+
+  it("expires pending requests", () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    savePending("n1")
+    vi.advanceTimersByTime(FV_PENDING_MAX_AGE_MS)
+
+    expect(parseFVCallback(callback("n1"))).toMatchObject({
+      valid: false,
+      invalidReason: "expired",
+    })
+  })
+
+  it("ignores URLs that are not callbacks and strips callback params", () => {
+    expect(parseFVCallback(appUrl)).toMatchObject({
+      isCallback: false,
+      valid: false,
+    })
+    expect(stripFVCallbackParams(callback("n1", "&reason=x"))).toBe(appUrl)
+  })
+})
+
+describe("FV popup", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it("parses result messages", () => {
+    expect(parseFVPopupMessage({ verified: true })).toEqual({
+      verified: true,
+      reason: undefined,
+    })
+    expect(
+      parseFVPopupMessage('{"verified":"false","error":"no face"}'),
+    ).toEqual({ verified: false, reason: "no face" })
+    expect(parseFVPopupMessage("not json")).toBeNull()
+    expect(parseFVPopupMessage({ type: "resize" })).toBeNull()
+  })
+
+  it("returns null when the popup is blocked", () => {
+    vi.stubGlobal("window", {
+      open: () => {
+        throw new Error("blocked")
+      },
+    })
+    expect(openFVPopup()).toBeNull()
+  })
+
+  it("only accepts messages from the popup on the expected origin", async () => {
+    const target = new EventTarget()
+    vi.stubGlobal("window", target)
+    const popup = { closed: false } as Window
+    const post = (origin: string, source: unknown, data: unknown) =>
+      target.dispatchEvent(
+        Object.assign(new Event("message"), { origin, source, data }),
+      )
+
+    const outcome = waitForFVPopup(popup, "https://goodid.example", {
+      timeoutMs: 1_000,
+      pollIntervalMs: 10,
+    })
+    post("https://evil.example", popup, { verified: true })
+    post("https://goodid.example", {}, { verified: true })
+    post("https://goodid.example", popup, { verified: false, reason: "x" })
+
+    await expect(outcome).resolves.toEqual({
+      type: "message",
+      message: { verified: false, reason: "x" },
+    })
+  })
+
+  it("reports a closed popup and a timeout", async () => {
+    vi.stubGlobal("window", new EventTarget())
+    const popup = { closed: true } as Window
+    await expect(
+      waitForFVPopup(popup, "https://goodid.example", {
+        timeoutMs: 1_000,
+        pollIntervalMs: 10,
+      }),
+    ).resolves.toEqual({ type: "closed" })
+
+    await expect(
+      waitForFVPopup({ closed: false } as Window, "https://goodid.example", {
+        timeoutMs: 20,
+        pollIntervalMs: 10,
+      }),
+    ).resolves.toEqual({ type: "timeout" })
+  })
+})
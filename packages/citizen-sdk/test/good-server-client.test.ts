@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest"
+import { createServer, type IncomingMessage, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { verifyMessage } from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { GoodServerClient } from "../src/sdks/good-server-client"
+import { GoodServerError } from "../src/errors"
+import { FV_IDENTIFIER_MSG2 } from "../src/constants"
+
+interface MockRequest {
+  path: string
+  body: any
+  authorization?: string
+}
+
+const account = privateKeyToAccount(generatePrivateKey())
+
+let tokenId = 0
+const createJwt = (expiresInSeconds: number) => {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url")
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds
+  return `${encode({ alg: "none" })}.${encode({ exp, jti: ++tokenId })}.sig`
+}
+
+const readBody = async (req: IncomingMessage) => {
+  let raw = ""
+  for await (const chunk of req) raw += chunk
+  return raw ? JSON.parse(raw) : {}
+}
+
+// Local GoodServer stand-in; individual tests tweak its behaviour through `mock`.
+const mock = {
+  requests: [] as MockRequest[],
+  tokenTtl: 3600,
+  issuedTokens: [] as string[],
+  revoked: new Set<string>(),
+  topWalletFailures: 0,
+  faceRecords: new Set<string>(),
+}
+
+describe("GoodServerClient", () => {
+  let server: Server
+  let backendUrl: string
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = await readBody(req)
+      const authorization = req.headers.authorization
+      mock.requests.push({ path: req.url ?? "", body, authorization })
+
+      const reply = (status: number, json: object) => {
+        res.writeHead(status, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(json))
+      }
+
+      if (req.url === "/auth/fv2") {
+        const valid = await verifyMessage({
+          address: body.account,
+          message: FV_IDENTIFIER_MSG2.replace("<account>", body.account),
+          signature: body.fvsig,
+        })
+        if (!valid) return reply(400, { ok: 0, error: "invalid signature" })
+
+        const token = createJwt(mock.tokenTtl)
+        mock.issuedTokens.push(token)
+        return reply(200, { ok: 1, token })
+      }
+
+      const token = authorization?.replace("Bearer ", "")
+      if (
+        !token ||
+        !mock.issuedTokens.includes(token) ||
+        mock.revoked.has(token)
+      ) {
+        return reply(401, { ok: 0, error: "unauthorized" })
+      }
+
+      if (req.url === "/verify/topWallet") {
+        if (mock.topWalletFailures > 0) {
+          mock.topWalletFailures--
+          return reply(503, { ok: 0, error: "unavailable" })
+        }
+        return reply(200, { ok: 1, chainId: body.chainId })
+      }
+
+      if (req.method === "DELETE" && req.url?.startsWith("/verify/face/")) {
+        const identifier = decodeURIComponent(req.url.split("/").pop() ?? "")
+        if (!mock.faceRecords.delete(identifier)) {
+          return reply(404, { ok: 0, error: "face record not found" })
+        }
+        return reply(200, { success: true })
+      }
+
+      reply(404, { ok: 0, error: "not found" })
+    })
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    backendUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    mock.requests = []
+    mock.tokenTtl = 3600
+    mock.issuedTokens = []
+    mock.revoked.clear()
+    mock.topWalletFailures = 0
+    mock.faceRecords.clear()
+  })
+
+  const createClient = () =>
+    new GoodServerClient({
+      env: "development",
+      account,
+      backendUrl,
+      retryDelayMs: 1,
+    })
+
+  const authCount = () =>
+    mock.requests.filter(({ path }) => path === "/auth/fv2").length
+
+  it("authenticates once and reuses the token", async () => {
+    const client = createClient()
+
+    await client.topWallet(42220)
+    const result = await client.topWallet(122)
+
+    expect(result.chainId).toBe(122)
+    expect(authCount()).toBe(1)
+    expect(mock.requests[1].body.account).toBe(account.address)
+  })
+
+  it("shares one authentication between concurrent requests", async () => {
+    const client = createClient()
+
+    await Promise.all([client.topWallet(42220), client.topWallet(42220)])
+
+    expect(authCount()).toBe(1)
+  })
+
+  it("renews a token that is about to expire", async () => {
+    const client = createClient()
+    mock.tokenTtl = 30
+
+    await client.topWallet(42220)
+    await client.topWallet(42220)
+
+    expect(authCount()).toBe(2)
+  })
+
+  it("re-authenticates once when the server rejects the token", async () => {
+    const client = createClient()
+
+    await client.topWallet(42220)
+    mock.revoked.add(mock.issuedTokens[0])
+    await client.topWallet(42220)
+
+    expect(authCount()).toBe(2)
+  })
+
+  it("retries transient server failures", async () => {
+    const client = createClient()
+    mock.topWalletFailures = 2
+
+    const result = await client.topWallet(42220)
+
+    expect(result.ok).toBe(1)
+  })
+
+  it("throws a GoodServerError once retries are exhausted", async () => {
+    const client = createClient()
+    mock.topWalletFailures = 3
+
+    const error = await client.topWallet(42220).catch((e) => e)
+
+    expect(error).toBeInstanceOf(GoodServerError)
+    expect(error.status).toBe(503)
+  })
+
+  it("deletes the face record keyed by the identifier signature", async () => {
+    const client = createClient()
+    const fvSig = await client.getFVSig()
+    mock.faceRecords.add(fvSig)
+
+    await client.deleteFaceRecord(fvSig)
+    const error = await client.deleteFaceRecord(fvSig).catch((e) => e)
+
+    expect(mock.faceRecords.size).toBe(0)
+    expect(error).toBeInstanceOf(GoodServerError)
+    expect(error.status).toBe(404)
+  })
+})
@@ -0,0 +1,120 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { celo } from "viem/chains"
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  IdentityAdminSDK,
+  SimulationRevertedError,
+  TransactionFailedError,
+  type WhitelistedRootResult,
+} from "../src"
+
+const publicClient = createPublicClient({
+  chain: celo,
+  transport: http(),
+}) as PublicClient
+const walletClient = createWalletClient({
+  chain: celo,
+  transport: http(),
+  account: privateKeyToAccount(generatePrivateKey()),
+})
+
+const alice = "0x00000000000000000000000000000000000000a1" as Address
+const bob = "0x00000000000000000000000000000000000000b2" as Address
+const carol = "0x00000000000000000000000000000000000000c3" as Address
+const dave = "0x00000000000000000000000000000000000000d4" as Address
+const hash = (byte: string) => `0x${byte.repeat(32)}` as const
+
+const createAdminSDK = () => {
+  const sdk = new IdentityAdminSDK({
+    account: walletClient.account.address,
+    publicClient,
+    walletClient,
+    env: "development",
+  })
+  vi.spyOn(sdk, "hasAdminRole").mockResolvedValue(true)
+  return sdk
+}
+
+describe("IdentityAdminSDK", () => {
+  it("refuses production unless explicitly allowed", () => {
+    const options = {
+      account: walletClient.account.address,
+      publicClient,
+      walletClient,
+      env: "production",
+    }
+
+    expect(() => new IdentityAdminSDK(options)).toThrow(
+      expect.objectContaining({ code: "UNAUTHORIZED" }),
+    )
+    expect(
+      new IdentityAdminSDK({ ...options, allowProduction: true }),
+    ).toBeInstanceOf(IdentityAdminSDK)
+  })
+
+  it("refuses to send without the admin role", async () => {
+    const sdk = createAdminSDK()
+    vi.mocked(sdk.hasAdminRole).mockResolvedValue(false)
+    const submit = vi.spyOn(sdk, "submitAndWait")
+
+    await expect(sdk.batchAddWhitelisted([alice])).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    })
+    expect(submit).not.toHaveBeenCalled()
+  })
+
+  it("records skipped and failed accounts without stopping the batch", async () => {
+    const sdk = createAdminSDK()
+    vi.spyOn(sdk, "getWhitelistedRoots").mockResolvedValue(
+      new Map<Address, WhitelistedRootResult>([
+        [alice, { status: "success", isWhitelisted: true, root: alice }],
+        [bob, { status: "success", isWhitelisted: false, root: zeroAddress }],
+        [carol, { status: "success", isWhitelisted: false, root: zeroAddress }],
+        [dave, { status: "success", isWhitelisted: false, root: zeroAddress }],
+      ]),
+    )
+    vi.spyOn(sdk, "submitAndWait").mockImplementation(
+      async (params, onHash) => {
+        const [account] = params.args as [Address]
+        if (account === bob) {
+          onHash?.(hash("b2"))
+          throw new TransactionFailedError("Transaction reverted", hash("b2"))
+        }
+        if (account === carol) {
+          throw new SimulationRevertedError("Simulation reverted", "not admin")
+        }
+        onHash?.(hash("d4"))
+        return { status: "success" } as any
+      },
+    )
+    const onProgress = vi.fn()
+
+    const results = await sdk.batchAddWhitelisted(
+      [alice, bob, carol, dave, alice],
+      { onProgress },
+    )
+
+    expect(results).toMatchObject([
+      { account: alice, status: "skipped" },
+      {
+        account: bob,
+        status: "failed",
+        txHash: hash("b2"),
+        code: "TRANSACTION_FAILED",
+      },
+      { account: carol, status: "failed", code: "SIMULATION_REVERTED" },
+      { account: dave, status: "success", txHash: hash("d4") },
+    ])
+    expect(results[2].txHash).toBeUndefined()
+    expect(onProgress).toHaveBeenCalledTimes(4)
+  })
+})
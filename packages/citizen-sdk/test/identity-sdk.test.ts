@@ -0,0 +1,358 @@
+import { decompressFromEncodedURIComponent } from "lz-string"
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  numberToHex,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { celo } from "viem/chains"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  DEFAULT_EXPIRING_SOON_DAYS,
+  IdentityCustodialSDK,
+  IdentitySDK,
+  SupportedChains,
+  createMemoryStorage,
+  identityV2ABI,
+} from "../src"
+
+const root = "0x00000000000000000000000000000000000000a1" as Address
+const connected = "0x00000000000000000000000000000000000000b2" as Address
+
+type Reads = Partial<
+  Record<(typeof identityV2ABI)[number]["name"], (args: any[]) => unknown>
+>
+
+/** Public client answering identity contract reads and logs from handlers. */
+const createIdentityClient = ({
+  reads = {},
+  latestBlock = 0n,
+  getLogs = () => [],
+}: {
+  reads?: Reads
+  latestBlock?: bigint
+  getLogs?: (filter: { fromBlock: string; toBlock: string }) => unknown[]
+}) =>
+  createPublicClient({
+    chain: celo,
+    transport: custom(
+      {
+        request: async ({ method, params }) => {
+          switch (method) {
+            case "eth_blockNumber":
+              return numberToHex(latestBlock)
+            case "eth_getLogs":
+              return getLogs(params[0])
+            case "eth_call": {
+              const { functionName, args = [] } = decodeFunctionData({
+                abi: identityV2ABI,
+                data: params[0].data,
+              })
+              const read = reads[functionName]
+              if (!read) throw new Error(`Unexpected read ${functionName}`)
+              return encodeFunctionResult({
+                abi: identityV2ABI,
+                functionName: functionName as "getWhitelistedRoot",
+                result: read(args as any[]) as Address,
+              })
+            }
+            default:
+              throw new Error(`Unexpected method ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }) as PublicClient
+
+const connectedLog = (blockNumber: bigint) => ({
+  address: "0x0000000000000000000000000000000000000001",
+  topics: encodeEventTopics({
+    abi: identityV2ABI,
+    eventName: "AccountConnected",
+    args: { connected, to: root },
+  }),
+  data: encodeAbiParameters([], []),
+  blockNumber: numberToHex(blockNumber),
+  blockHash: `0x${"cd".repeat(32)}`,
+  transactionHash: `0x${"ab".repeat(32)}`,
+  transactionIndex: "0x0",
+  logIndex: "0x0",
+  removed: false,
+})
+
+describe("IdentitySDK.listConnectedAccounts", () => {
+  it("requires a start block when no deployment block is configured", async () => {
+    const sdk = IdentitySDK.readOnly({
+      publicClient: createIdentityClient({}),
+      rpcPool: false,
+    })
+
+    await expect(sdk.listConnectedAccounts(root)).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+    })
+  })
+
+  it("scans from the deployment block in batches", async () => {
+    const ranges: [bigint, bigint][] = []
+    const sdk = IdentitySDK.readOnly({
+      publicClient: createIdentityClient({
+        latestBlock: 25_000n,
+        getLogs: ({ fromBlock, toBlock }) => {
+          ranges.push([BigInt(fromBlock), BigInt(toBlock)])
+          return BigInt(fromBlock) === 100n ? [connectedLog(150n)] : []
+        },
+        reads: { connectedAccounts: () => root },
+      }),
+      contracts: { [SupportedChains.CELO]: { identityDeploymentBlock: 100n } },
+      rpcPool: false,
+    })
+
+    await expect(sdk.listConnectedAccounts(root)).resolves.toEqual([connected])
+    expect(ranges).toEqual([
+      [100n, 10_099n],
+      [10_100n, 20_099n],
+      [20_100n, 25_000n],
+    ])
+  })
+})
+
+describe("IdentityCustodialSDK.generateFVLink", () => {
+  beforeEach(() => {
+    vi.stubGlobal("sessionStorage", createMemoryStorage())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("signs locally and issues redirects that handleFVCallback accepts", async () => {
+    const localAccount = privateKeyToAccount(generatePrivateKey())
+    const sdk = new IdentityCustodialSDK({
+      publicClient: createIdentityClient({
+        reads: { getWhitelistedRoot: () => localAccount.address },
+      }),
+      walletClient: createWalletClient({
+        chain: celo,
+        account: localAccount,
+        transport: custom({
+          request: async ({ method }) => {
+            throw new Error(`Unexpected wallet method ${method}`)
+          },
+        }),
+      }),
+      env: "development",
+      rpcPool: false,
+    })
+
+    const link = await sdk.generateFVLink(
+      false,
+      "https://app.example/claim",
+      undefined,
+      { step: "claim" },
+    )
+    const { rdu, fvsig } = JSON.parse(
+      decompressFromEncodedURIComponent(new URL(link).searchParams.get("lz")!),
+    )
+    expect(fvsig).toMatch(/^0x[0-9a-f]{130}$/)
+
+    await expect(
+      sdk.handleFVCallback(`${rdu}&verified=true`, false),
+    ).resolves.toMatchObject({
+      valid: true,
+      isWhitelisted: true,
+      account: localAccount.address,
+      state: { step: "claim" },
+    })
+  })
+})
+
+describe("IdentitySDK.getIdentityStatus", () => {
+  const DAY = 24 * 60 * 60 * 1000
+  const now = Date.UTC(2026, 0, 1)
+  const authPeriodDays = 180n
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(now)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /** Status of `root` when its identity expires `msUntilExpiry` from now. */
+  const statusAt = (msUntilExpiry: number | null, isWhitelisted = true) =>
+    IdentitySDK.readOnly({
+      publicClient: createIdentityClient({
+        reads: {
+          getWhitelistedRoot: () => (isWhitelisted ? root : zeroAddress),
+          lastAuthenticated: () =>
+            msUntilExpiry === null
+              ? 0n
+              : BigInt(
+                  (now + msUntilExpiry - Number(authPeriodDays) * DAY) / 1000,
+                ),
+          authenticationPeriod: () => authPeriodDays,
+        },
+      }),
+      rpcPool: false,
+    }).getIdentityStatus(root)
+
+  it("reports accounts that never verified as unverified", async () => {
+    await expect(statusAt(null, false)).resolves.toMatchObject({
+      status: "unverified",
+      root,
+    })
+  })
+
+  it("switches to expiring_soon at DEFAULT_EXPIRING_SOON_DAYS", async () => {
+    const threshold = DEFAULT_EXPIRING_SOON_DAYS * DAY
+
+    await expect(statusAt(threshold + 1000)).resolves.toMatchObject({
+      status: "active",
+      daysRemaining: DEFAULT_EXPIRING_SOON_DAYS + 1,
+      expiryDate: new Date(now + threshold + 1000),
+    })
+    await expect(statusAt(threshold)).resolves.toMatchObject({
+      status: "expiring_soon",
+      daysRemaining: DEFAULT_EXPIRING_SOON_DAYS,
+    })
+  })
+
+  it("expires at the expiry time or once the account is no longer whitelisted", async () => {
+    await expect(statusAt(1000)).resolves.toMatchObject({
+      status: "expiring_soon",
+      daysRemaining: 1,
+    })
+    await expect(statusAt(0)).resolves.toMatchObject({
+      status: "expired",
+      daysRemaining: 0,
+    })
+    await expect(statusAt(DAY, false)).resolves.toMatchObject({
+      status: "expired",
+    })
+  })
+})
+
+describe("IdentitySDK.verifyInPopup", () => {
+  const fvLink = "https://goodid.example/?lz=link"
+  let popup: { closed: boolean; close: () => void; location: { href: string } }
+  let target: EventTarget & { open: () => unknown }
+
+  const post = (origin: string, data: unknown, source: unknown = popup) =>
+    target.dispatchEvent(
+      Object.assign(new Event("message"), { origin, source, data }),
+    )
+
+  /** Runs `afterOpen` once the popup was pointed at the FV link and is being watched. */
+  const createPopupSDK = (afterOpen: () => void = () => {}) => {
+    let href = ""
+    popup = {
+      closed: false,
+      close: vi.fn(() => {
+        popup.closed = true
+      }),
+      location: {
+        get href() {
+          return href
+        },
+        set href(value) {
+          href = value
+          queueMicrotask(afterOpen)
+        },
+      },
+    }
+    target = Object.assign(new EventTarget(), { open: vi.fn(() => popup) })
+    vi.stubGlobal("window", target)
+
+    const sdk = new IdentitySDK({
+      publicClient: createIdentityClient({}),
+      walletClient: createWalletClient({
+        chain: celo,
+        account: privateKeyToAccount(generatePrivateKey()),
+        transport: custom({
+          request: async ({ method }) => {
+            throw new Error(`Unexpected wallet method ${method}`)
+          },
+        }),
+      }),
+      env: "development",
+      rpcPool: false,
+    })
+    vi.spyOn(sdk, "generateFVLink").mockResolvedValue(fvLink)
+    const whitelist = vi
+      .spyOn(sdk, "getWhitelistedRoot")
+      .mockResolvedValue({ isWhitelisted: false, root: zeroAddress })
+    return { sdk, whitelist }
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it("reports a blocked popup without generating a link", async () => {
+    const { sdk } = createPopupSDK()
+    target.open = () => null
+
+    await expect(sdk.verifyInPopup()).resolves.toEqual({
+      status: "popup_blocked",
+    })
+    expect(sdk.generateFVLink).not.toHaveBeenCalled()
+  })
+
+  it("ignores messages from other origins and reports a closed popup", async () => {
+    const { sdk, whitelist } = createPopupSDK(() => {
+      post("https://evil.example", { verified: true })
+      post("https://goodid.example", { verified: true }, {})
+      popup.closed = true
+    })
+
+    await expect(sdk.verifyInPopup()).resolves.toEqual({ status: "closed" })
+    expect(whitelist).toHaveBeenCalledTimes(1)
+  })
+
+  it("re-checks the whitelist until the verification lands", async () => {
+    vi.useFakeTimers()
+    const { sdk, whitelist } = createPopupSDK(() =>
+      post("https://goodid.example", { verified: true }),
+    )
+    whitelist
+      .mockResolvedValueOnce({ isWhitelisted: false, root: zeroAddress })
+      .mockResolvedValueOnce({ isWhitelisted: false, root: zeroAddress })
+      .mockResolvedValueOnce({ isWhitelisted: true, root })
+
+    const result = sdk.verifyInPopup()
+    await vi.advanceTimersByTimeAsync(6_000)
+
+    await expect(result).resolves.toEqual({ status: "verified", root })
+    expect(whitelist).toHaveBeenCalledTimes(3)
+    expect(popup.close).toHaveBeenCalled()
+  })
+
+  it("fails once the retries run out", async () => {
+    vi.useFakeTimers()
+    const { sdk, whitelist } = createPopupSDK(() =>
+      post("https://goodid.example", { verified: true }),
+    )
+
+    const result = sdk.verifyInPopup()
+    await vi.advanceTimersByTimeAsync(12_000)
+
+    await expect(result).resolves.toEqual({
+      status: "failed",
+      reason: "Verification completed but the account is not whitelisted yet.",
+    })
+    expect(whitelist).toHaveBeenCalledTimes(5)
+  })
+})
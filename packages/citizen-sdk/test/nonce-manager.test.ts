@@ -0,0 +1,194 @@
+import {
+  NonceTooLowError,
+  createPublicClient,
+  createWalletClient,
+  http,
+  type PublicClient,
+} from "viem"
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts"
+import { celo, fuse } from "viem/chains"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  ClaimCustodialSDK,
+  DEFAULT_NONCE_DROPPED_AFTER_MS,
+  IdentitySDK,
+  createMemoryStorage,
+  createNonceManager,
+} from "../src"
+
+const address = "0x0000000000000000000000000000000000000001"
+
+const createScope = (pendingNonce: number) => {
+  const client = {
+    chain: { id: 42220 },
+    getTransactionCount: vi.fn(async () => pendingNonce),
+  }
+  return {
+    scope: { address, client: client as unknown as PublicClient },
+    setPending: (nonce: number) => {
+      pendingNonce = nonce
+    },
+    client,
+  }
+}
+
+describe("nonce manager", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("reserves consecutive nonces for concurrent sends", async () => {
+    const { scope, client } = createScope(7)
+    const manager = createNonceManager()
+
+    const nonces = await Promise.all(
+      [0, 1, 2].map(() => manager.send(scope, async (nonce) => nonce)),
+    )
+
+    expect(nonces).toEqual([7, 8, 9])
+    expect(client.getTransactionCount).toHaveBeenCalledTimes(1)
+  })
+
+  it("fills gaps left by failed sends", async () => {
+    const { scope } = createScope(0)
+    const manager = createNonceManager()
+
+    const [first, failed, last] = await Promise.allSettled([
+      manager.send(scope, async (nonce) => nonce),
+      manager.send(scope, async () => {
+        throw new Error("insufficient funds")
+      }),
+      manager.send(scope, async (nonce) => nonce),
+    ])
+
+    expect(first).toMatchObject({ value: 0 })
+    expect(failed.status).toBe("rejected")
+    expect(last).toMatchObject({ value: 2 })
+    await expect(manager.reserve(scope)).resolves.toBe(1)
+    await expect(manager.reserve(scope)).resolves.toBe(3)
+  })
+
+  it("resyncs with the pending nonce after nonce too low", async () => {
+    const { scope, setPending } = createScope(3)
+    const manager = createNonceManager()
+    await manager.reserve(scope)
+
+    // Another process sent transactions from the same wallet.
+    setPending(10)
+    const send = vi.fn(async (nonce: number) => {
+      if (nonce < 10) throw new NonceTooLowError({ nonce })
+      return nonce
+    })
+
+    await expect(manager.send(scope, send)).resolves.toBe(10)
+    expect(send.mock.calls.map(([nonce]) => nonce)).toEqual([4, 10])
+  })
+
+  it("continues from the persisted nonce after a restart", async () => {
+    const storage = createMemoryStorage()
+    const { scope } = createScope(5)
+    const sendNonce = async (nonce: number) => nonce
+
+    await createNonceManager({ storage }).send(scope, sendNonce)
+    await createNonceManager({ storage }).send(scope, sendNonce)
+
+    // The node has not indexed the sent transactions yet.
+    await expect(createNonceManager({ storage }).reserve(scope)).resolves.toBe(
+      7,
+    )
+  })
+
+  it("reuses nonces of dropped transactions after a restart", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const storage = createMemoryStorage()
+    const { scope } = createScope(5)
+    const sendNonce = async (nonce: number) => nonce
+
+    const manager = createNonceManager({ storage })
+    await manager.send(scope, sendNonce)
+    await manager.send(scope, sendNonce)
+    // Reserved but the worker died before sending it.
+    await manager.reserve(scope)
+
+    // Neither transaction ever reached the chain.
+    vi.advanceTimersByTime(DEFAULT_NONCE_DROPPED_AFTER_MS + 1)
+    await expect(createNonceManager({ storage }).reserve(scope)).resolves.toBe(
+      5,
+    )
+  })
+
+  it("hands out the nonces of transactions dropped from the mempool", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const { scope, setPending } = createScope(0)
+    const manager = createNonceManager({ droppedAfterMs: 1_000 })
+
+    await Promise.all(
+      [0, 1, 2].map(() => manager.send(scope, async (nonce) => nonce)),
+    )
+    // Only nonce 0 was mined; 1 and 2 were dropped.
+    setPending(1)
+    vi.advanceTimersByTime(1_001)
+
+    await expect(manager.reserve(scope)).resolves.toBe(1)
+    await expect(manager.reserve(scope)).resolves.toBe(2)
+  })
+
+  it("keeps nonces that are still being sent when resyncing", async () => {
+    const { scope, setPending } = createScope(0)
+    const manager = createNonceManager()
+
+    await manager.send(scope, async (nonce) => nonce)
+    const inFlight = await manager.reserve(scope)
+    const released = await manager.reserve(scope)
+    await manager.release(scope, released)
+
+    // The sent transaction was dropped right away.
+    setPending(0)
+    await manager.resync(scope)
+
+    expect(inFlight).toBe(1)
+    // 0 was sent recently, so it is kept; 1 is still in flight.
+    await expect(manager.reserve(scope)).resolves.toBe(2)
+    await manager.release(scope, inFlight)
+    await expect(manager.reserve(scope)).resolves.toBe(1)
+  })
+})
+
+describe("ClaimCustodialSDK", () => {
+  it("keeps its nonce manager on SDKs built for other chains", () => {
+    const nonceManager = createNonceManager()
+    const publicClient = createPublicClient({ chain: celo, transport: http() })
+    const walletClient = createWalletClient({
+      chain: celo,
+      transport: http(),
+      account: privateKeyToAccount(generatePrivateKey()),
+    })
+    const identitySDK = new IdentitySDK({
+      publicClient: publicClient as PublicClient,
+      walletClient,
+      env: "production",
+    })
+    const sdk = new ClaimCustodialSDK({
+      publicClient: publicClient as PublicClient,
+      walletClient,
+      identitySDK,
+      env: "production",
+      nonceManager,
+    })
+
+    const chainSDK = (sdk as any).cloneForChain({
+      publicClient,
+      walletClient: createWalletClient({
+        chain: fuse,
+        transport: http(),
+        account: walletClient.account,
+      }),
+      identitySDK,
+      env: "production",
+    })
+
+    expect(chainSDK).toBeInstanceOf(ClaimCustodialSDK)
+    expect(chainSDK.nonceManager).toBe(nonceManager)
+  })
+})
@@ -0,0 +1,187 @@
+import {
+  createPublicClient,
+  custom,
+  encodeErrorResult,
+  encodeFunctionResult,
+  parseAbi,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { celo } from "viem/chains"
+import { describe, expect, it, vi } from "vitest"
+
+import { ClaimSDK, SupportedChains, type ClaimPreflightReport } from "../src"
+
+const account = "0x00000000000000000000000000000000000000a1" as Address
+
+const faucetState = (
+  overrides: Partial<NonNullable<ClaimPreflightReport["faucet"]>> = {},
+) => ({
+  needed: false,
+  canTop: true,
+  balance: 10n ** 18n,
+  toppingAmount: 10n ** 16n,
+  minTopping: 10,
+  ...overrides,
+})
+
+const createPreflightSDK = ({
+  whitelisted = true,
+  amount = 10n ** 18n,
+  altChainId = null as SupportedChains | null,
+  faucet = faucetState() as ClaimPreflightReport["faucet"],
+  reverts = false,
+  gasFails = false,
+} = {}) => {
+  const publicClient = createPublicClient({
+    chain: celo,
+    transport: custom(
+      {
+        request: async ({ method }) => {
+          switch (method) {
+            case "eth_call":
+              if (reverts) {
+                throw Object.assign(new Error("execution reverted"), {
+                  code: 3,
+                  data: encodeErrorResult({
+                    abi: parseAbi(["error Error(string)"]),
+                    errorName: "Error",
+                    args: ["has already claimed"],
+                  }),
+                })
+              }
+              return encodeFunctionResult({
+                abi: parseAbi(["function claim() returns (bool)"]),
+                functionName: "claim",
+                result: true,
+              })
+            case "eth_estimateGas":
+              if (gasFails) throw new Error("gas estimation failed")
+              return "0x30d40"
+            case "eth_gasPrice":
+              return "0x5"
+            default:
+              throw new Error(`Unexpected method ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }) as PublicClient
+
+  const sdk = ClaimSDK.readOnly({ publicClient, account, rpcPool: false })
+  vi.spyOn(sdk.identitySDK, "getWhitelistedRoot").mockResolvedValue({
+    isWhitelisted: whitelisted,
+    root: whitelisted ? account : "0x0000000000000000000000000000000000000000",
+  })
+  vi.spyOn(sdk, "checkEntitlement").mockResolvedValue({
+    amount,
+    altClaimAvailable: altChainId !== null,
+    altChainId,
+    altAmount: altChainId !== null ? 100n : null,
+  })
+  vi.spyOn(sdk, "nextClaimTime").mockResolvedValue(
+    new Date("2026-01-02T12:00:00Z"),
+  )
+  vi.spyOn(sdk as any, "readFaucetNeed").mockResolvedValue(faucet)
+  return sdk
+}
+
+const actions = (report: ClaimPreflightReport) =>
+  report.recommendations.map(({ action }) => action)
+
+describe("ClaimSDK.preflight", () => {
+  it("asks unverified wallets to verify their identity", async () => {
+    const report = await createPreflightSDK({ whitelisted: false }).preflight()
+
+    expect(report).toMatchObject({ ready: false, entitlement: null })
+    expect(actions(report)).toEqual(["verify_identity"])
+  })
+
+  it("points to the next period and other chains once claimed", async () => {
+    const report = await createPreflightSDK({
+      amount: 0n,
+      altChainId: SupportedChains.FUSE,
+    }).preflight()
+
+    expect(report.ready).toBe(false)
+    expect(report.nextClaimTime).toEqual(new Date("2026-01-02T12:00:00Z"))
+    expect(report.recommendations).toMatchObject([
+      { action: "switch_chain", chainId: SupportedChains.FUSE },
+      { action: "wait_for_next_period" },
+    ])
+  })
+
+  it("is ready when the claim simulates and gas is covered", async () => {
+    const report = await createPreflightSDK().preflight()
+
+    expect(report).toMatchObject({
+      ready: true,
+      simulation: { ok: true },
+      gas: { estimate: 200_000n, gasPrice: 5n, cost: 1_000_000n },
+    })
+    expect(actions(report)).toEqual(["claim"])
+  })
+
+  it("stays ready when the faucet will top up the wallet", async () => {
+    const report = await createPreflightSDK({
+      faucet: faucetState({ needed: true, canTop: true }),
+    }).preflight()
+
+    expect(report.ready).toBe(true)
+    expect(actions(report)).toEqual(["faucet_top_up", "claim"])
+  })
+
+  it("asks to fund wallets the faucet cannot top up", async () => {
+    const report = await createPreflightSDK({
+      faucet: faucetState({ needed: true, canTop: false }),
+    }).preflight()
+
+    expect(report.ready).toBe(false)
+    expect(actions(report)).toEqual(["fund_wallet"])
+  })
+
+  it("is not ready when the faucet or gas state cannot be read", async () => {
+    const unreadableFaucet = await createPreflightSDK({
+      faucet: null,
+    }).preflight()
+    expect(unreadableFaucet.ready).toBe(false)
+    expect(actions(unreadableFaucet)).toEqual(["check_gas_balance"])
+
+    const unreadableGas = await createPreflightSDK({
+      gasFails: true,
+    }).preflight()
+    expect(unreadableGas).toMatchObject({ ready: false, gas: null })
+    expect(actions(unreadableGas)).toEqual(["check_gas_balance"])
+  })
+
+  it("reuses the whitelisted root for the entitlement and fallback reads", async () => {
+    const sdk = createPreflightSDK()
+    vi.mocked(sdk.checkEntitlement).mockRestore()
+    vi.spyOn(sdk as any, "readContract").mockResolvedValue(0n)
+    const overview = vi
+      .spyOn(sdk as any, "readChainEntitlementOverview")
+      .mockImplementation(async (chainId) => ({ chainId, amount: 100n }))
+
+    const report = await sdk.preflight()
+
+    expect(sdk.identitySDK.getWhitelistedRoot).toHaveBeenCalledTimes(1)
+    expect(overview).toHaveBeenCalledWith(
+      expect.any(Number),
+      account,
+      expect.any(Number),
+    )
+    expect(actions(report)).toEqual(["switch_chain", "wait_for_next_period"])
+  })
+
+  it("reports a claim that would revert", async () => {
+    const report = await createPreflightSDK({ reverts: true }).preflight()
+
+    expect(report.ready).toBe(false)
+    expect(report.simulation).toMatchObject({
+      ok: false,
+      error: { code: "SIMULATION_REVERTED", reason: "has already claimed" },
+    })
+    expect(actions(report)).toEqual(["resolve_revert"])
+  })
+})
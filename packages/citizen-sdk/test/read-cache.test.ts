@@ -0,0 +1,142 @@
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { celo } from "viem/chains"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  IdentitySDK,
+  SupportedChains,
+  createMemoryStorage,
+  createReadCache,
+  identityV2ABI,
+} from "../src"
+import { savePendingFVRequest } from "../src/utils/fvCallback"
+
+const key = (functionName: string, chainId = SupportedChains.CELO) => ({
+  chainId,
+  address: "0x43d72Ff17701B2DA814620735C39C620Ce0ea4A1",
+  functionName,
+  args: ["0xAbC0000000000000000000000000000000000001", 1n],
+})
+
+describe("read cache", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it("shares one in-flight read and caches it for the TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const cache = createReadCache({ ttls: { checkEntitlement: 1_000 } })
+    const load = vi.fn(async () => 5n)
+
+    const [a, b] = await Promise.all([
+      cache.read(key("checkEntitlement"), load),
+      cache.read(
+        { ...key("checkEntitlement"), address: key("x").address.toLowerCase() },
+        load,
+      ),
+    ])
+    expect([a, b]).toEqual([5n, 5n])
+    expect(load).toHaveBeenCalledTimes(1)
+
+    await cache.read(key("checkEntitlement"), load)
+    expect(load).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1_001)
+    await cache.read(key("checkEntitlement"), load)
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it("only de-duplicates functions without a TTL and never caches failures", async () => {
+    const cache = createReadCache()
+    const load = vi.fn(async () => true)
+
+    await Promise.all([
+      cache.read(key("canTop"), load),
+      cache.read(key("canTop"), load),
+    ])
+    await cache.read(key("canTop"), load)
+    expect(load).toHaveBeenCalledTimes(2)
+
+    const failing = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("rpc down"))
+      .mockResolvedValue(1n)
+    await expect(cache.read(key("periodStart"), failing)).rejects.toThrow()
+    await expect(cache.read(key("periodStart"), failing)).resolves.toBe(1n)
+  })
+
+  it("invalidates reads per chain", async () => {
+    const cache = createReadCache()
+    const load = vi.fn(async () => 1n)
+
+    await cache.read(key("getDailyStats"), load)
+    await cache.read(key("getDailyStats", SupportedChains.FUSE), load)
+    cache.invalidate(SupportedChains.CELO)
+
+    await cache.read(key("getDailyStats"), load)
+    await cache.read(key("getDailyStats", SupportedChains.FUSE), load)
+    expect(load).toHaveBeenCalledTimes(3)
+  })
+
+  it("re-reads the whitelisted root when a face verification completes", async () => {
+    vi.stubGlobal("sessionStorage", createMemoryStorage())
+    const account: Address = "0x00000000000000000000000000000000000000a1"
+    let root: Address = zeroAddress
+    const eth_call = vi.fn(async ({ data }: { data: `0x${string}` }) => {
+      const { functionName } = decodeFunctionData({ abi: identityV2ABI, data })
+      return encodeFunctionResult({
+        abi: identityV2ABI,
+        functionName: functionName as "getWhitelistedRoot",
+        result: root,
+      })
+    })
+    const publicClient = createPublicClient({
+      chain: celo,
+      transport: custom({
+        request: async ({ method, params }) => {
+          if (method === "eth_call") return eth_call(params[0])
+          throw new Error(`Unexpected method ${method}`)
+        },
+      }),
+    }) as PublicClient
+
+    const identitySDK = IdentitySDK.readOnly({
+      publicClient,
+      account,
+      cache: createReadCache(),
+      rpcPool: false,
+    })
+
+    // Cached as not whitelisted before the user verifies
+    await expect(identitySDK.getWhitelistedRoot(account)).resolves.toEqual({
+      isWhitelisted: false,
+      root: zeroAddress,
+    })
+    await identitySDK.getWhitelistedRoot(account)
+    expect(eth_call).toHaveBeenCalledTimes(1)
+
+    root = account
+    savePendingFVRequest({
+      nonce: "n1",
+      account,
+      chainId: SupportedChains.CELO,
+      createdAt: Date.now(),
+    })
+
+    const result = await identitySDK.handleFVCallback(
+      "https://app.example/?verified=true&fvnonce=n1",
+      false,
+    )
+    expect(result).toMatchObject({ valid: true, isWhitelisted: true })
+    expect(eth_call).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  CHAIN_DECIMALS,
+  Envs,
+  SupportedChains,
+  createRpcUrlIterator,
+  getViemChain,
+  isSupportedChain,
+  registerChain,
+  registerEnv,
+  UnsupportedChainError,
+} from "../src"
+import { resolveChainAndContract } from "../src/utils/chains"
+
+const LOCAL_CHAIN = 31337 as SupportedChains
+
+const localContracts = {
+  identityContract: "0x0000000000000000000000000000000000000001",
+  ubiContract: "0x0000000000000000000000000000000000000002",
+  faucetContract: "0x0000000000000000000000000000000000000003",
+  g$Contract: "0x0000000000000000000000000000000000000004",
+} as const
+
+describe("chain registry", () => {
+  it("registers a chain that the SDK helpers accept", () => {
+    expect(isSupportedChain(LOCAL_CHAIN)).toBe(false)
+
+    registerChain({
+      id: LOCAL_CHAIN,
+      label: "Anvil",
+      shortName: "Anvil",
+      rpcUrls: ["http://127.0.0.1:8545", "http://127.0.0.1:8546"],
+      claimGasBuffer: 150000n,
+      defaultGasPrice: 1n,
+      contracts: { development: localContracts },
+    })
+
+    expect(isSupportedChain(LOCAL_CHAIN)).toBe(true)
+    expect(CHAIN_DECIMALS[LOCAL_CHAIN]).toBe(18)
+
+    const nextUrl = createRpcUrlIterator(LOCAL_CHAIN)
+    expect([nextUrl(), nextUrl(), nextUrl()]).toEqual([
+      "http://127.0.0.1:8545",
+      "http://127.0.0.1:8546",
+      "http://127.0.0.1:8545",
+    ])
+    expect(() => createRpcUrlIterator(999999 as SupportedChains)).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+    )
+
+    expect(getViemChain(LOCAL_CHAIN)).toMatchObject({
+      id: LOCAL_CHAIN,
+      name: "Anvil",
+      rpcUrls: {
+        default: { http: ["http://127.0.0.1:8545", "http://127.0.0.1:8546"] },
+      },
+    })
+
+    expect(
+      resolveChainAndContract(LOCAL_CHAIN, "development").contractEnvAddresses,
+    ).toEqual(localContracts)
+  })
+
+  it("registers an env with contracts on registered chains", () => {
+    registerEnv(
+      "local",
+      { backend: "http://127.0.0.1:3003" },
+      { [LOCAL_CHAIN]: localContracts },
+    )
+
+    expect(Envs.local.backend).toBe("http://127.0.0.1:3003")
+    expect(
+      resolveChainAndContract(LOCAL_CHAIN, "local").contractEnvAddresses,
+    ).toEqual(localContracts)
+  })
+
+  it("rejects incomplete contract addresses", () => {
+    const { g$Contract: _, ...incomplete } = localContracts
+
+    expect(() =>
+      registerEnv("broken", {}, { [LOCAL_CHAIN]: incomplete as any }),
+    ).toThrowError(/g\$Contract/)
+    expect(Envs.broken).toBeUndefined()
+
+    expect(() =>
+      registerEnv("broken", {}, { [999999]: localContracts } as any),
+    ).toThrowError(UnsupportedChainError)
+  })
+
+  it("applies per-instance overrides over the registry", () => {
+    const ubiContract = "0x00000000000000000000000000000000000000AA"
+
+    expect(
+      resolveChainAndContract(LOCAL_CHAIN, "development", {
+        [LOCAL_CHAIN]: { ubiContract },
+      }).contractEnvAddresses,
+    ).toEqual({ ...localContracts, ubiContract })
+
+    expect(() =>
+      resolveChainAndContract(SupportedChains.CELO, "development", {
+        [SupportedChains.CELO]: { ubiContract: "0x123" },
+      }),
+    ).toThrowError(/ubiContract/)
+  })
+})
@@ -0,0 +1,168 @@
+import { custom, HttpRequestError } from "viem"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  SupportedChains,
+  createRpcPool,
+  isRetryableRpcError,
+  registerChain,
+  type RpcPoolOptions,
+} from "../src"
+
+type Handler = (method: string) => unknown
+
+const createTestPool = (
+  handlers: Record<string, Handler>,
+  options: Omit<RpcPoolOptions, "transport"> = {},
+) => {
+  const calls: string[] = []
+  const pool = createRpcPool(SupportedChains.CELO, {
+    urls: Object.keys(handlers),
+    retryDelayMs: 0,
+    ...options,
+    transport: (url) =>
+      custom({
+        request: async ({ method }) => {
+          calls.push(url)
+          return handlers[url](method)
+        },
+      }),
+  })
+  return { pool, calls }
+}
+
+const serverError = (url: string) => {
+  throw new HttpRequestError({ url, status: 503 })
+}
+
+describe("RPC pool", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("retries idempotent reads on the next endpoint", async () => {
+    const { pool, calls } = createTestPool({
+      "https://a": () => serverError("https://a"),
+      "https://b": () => "0x10",
+    })
+
+    await expect(pool.request({ method: "eth_blockNumber" })).resolves.toBe(
+      "0x10",
+    )
+    expect(calls).toEqual(["https://a", "https://b"])
+
+    const [best, failing] = pool.getHealth()
+    expect(best).toMatchObject({ url: "https://b", successes: 1 })
+    expect(failing).toMatchObject({ url: "https://a", consecutiveFailures: 1 })
+  })
+
+  it("does not retry transaction submissions or reverts", async () => {
+    const { pool, calls } = createTestPool({
+      "https://a": () => serverError("https://a"),
+      "https://b": () => {
+        throw Object.assign(new Error("execution reverted"), { code: 3 })
+      },
+    })
+
+    await expect(
+      pool.request({ method: "eth_sendRawTransaction", params: ["0x"] }),
+    ).rejects.toThrow()
+    await expect(pool.request({ method: "eth_call" })).rejects.toThrow(
+      "execution reverted",
+    )
+    expect(calls).toEqual(["https://a", "https://b"])
+  })
+
+  it("opens the circuit of a failing endpoint until the cooldown ends", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    let healthy = false
+    const { pool, calls } = createTestPool(
+      {
+        "https://a": () => (healthy ? "0x1" : serverError("https://a")),
+        "https://b": () => (healthy ? "0x1" : serverError("https://b")),
+      },
+      { failureThreshold: 2, cooldownMs: 1_000 },
+    )
+
+    await expect(pool.request({ method: "eth_chainId" })).rejects.toThrow()
+    expect(pool.getHealth().every((h) => h.circuitOpenUntil)).toBe(false)
+
+    await expect(pool.request({ method: "eth_chainId" })).rejects.toThrow()
+    expect(pool.getHealth().every((h) => h.circuitOpenUntil)).toBe(true)
+
+    healthy = true
+    calls.length = 0
+    vi.advanceTimersByTime(1_001)
+    await expect(pool.request({ method: "eth_chainId" })).resolves.toBe("0x1")
+    expect(calls).toHaveLength(1)
+    expect(pool.getHealth()[0]).toMatchObject({
+      url: calls[0],
+      circuitOpenUntil: undefined,
+    })
+  })
+
+  it("prefers user-added endpoints", async () => {
+    const { pool, calls } = createTestPool(
+      {
+        "https://public": () => "0x1",
+        "https://paid": () => "0x2",
+      },
+      { urls: ["https://public"] },
+    )
+
+    pool.addUrls(["https://paid"])
+    await expect(pool.request({ method: "eth_chainId" })).resolves.toBe("0x2")
+    expect(calls).toEqual(["https://paid"])
+    expect(
+      pool.getHealth().map(({ url, custom }) => ({ url, custom })),
+    ).toEqual([
+      { url: "https://paid", custom: true },
+      { url: "https://public", custom: false },
+    ])
+  })
+
+  it("follows chains registered again after first use", async () => {
+    const chainId = 31339 as SupportedChains
+    const register = (rpcUrls: string[]) =>
+      registerChain({
+        id: chainId,
+        label: "Anvil",
+        shortName: "Anvil",
+        rpcUrls,
+        claimGasBuffer: 150000n,
+        defaultGasPrice: 1n,
+        contracts: {},
+      })
+    const calls: string[] = []
+    register(["http://127.0.0.1:8545"])
+    const pool = createRpcPool(chainId, {
+      transport: (url) =>
+        custom({
+          request: async () => {
+            calls.push(url)
+            return "0x1"
+          },
+        }),
+    })
+    pool.addUrls(["https://paid"])
+    await pool.request({ method: "eth_chainId" })
+    expect(calls).toEqual(["https://paid"])
+
+    register(["http://127.0.0.1:9545"])
+    expect(pool.getHealth().map(({ url }) => url)).toEqual([
+      "https://paid",
+      "http://127.0.0.1:9545",
+    ])
+    expect(pool.getHealth()[0].successes).toBe(1)
+  })
+
+  it("classifies transient errors", () => {
+    expect(
+      isRetryableRpcError(new HttpRequestError({ url: "x", status: 429 })),
+    ).toBe(true)
+    expect(
+      isRetryableRpcError(new HttpRequestError({ url: "x", status: 400 })),
+    ).toBe(false)
+    expect(isRetryableRpcError(new Error("execution reverted"))).toBe(false)
+  })
+})
@@ -0,0 +1,55 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { createFileStorage, createMemoryStorage } from "../src"
+import { getFaucetThrottleKey } from "../src/utils/triggerFaucet"
+
+describe("storage adapters", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "citizen-sdk-storage-"))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("keeps values in memory", () => {
+    const storage = createMemoryStorage()
+    storage.setItem("a", "1")
+    expect(storage.getItem("a")).toBe("1")
+    storage.removeItem("a")
+    expect(storage.getItem("a")).toBeNull()
+  })
+
+  it("persists values to a JSON file across instances", async () => {
+    const filePath = join(dir, "throttle.json")
+    const storage = createFileStorage(filePath)
+
+    expect(await storage.getItem("missing")).toBeNull()
+
+    await Promise.all([storage.setItem("a", "1"), storage.setItem("b", "2")])
+    expect(JSON.parse(await readFile(filePath, "utf8"))).toEqual({
+      a: "1",
+      b: "2",
+    })
+
+    const reopened = createFileStorage(filePath)
+    expect(await reopened.getItem("b")).toBe("2")
+    await reopened.removeItem("b")
+    expect(await storage.getItem("b")).toBeNull()
+  })
+
+  it("keys faucet throttling per account and chain", () => {
+    const account = "0xAbC0000000000000000000000000000000000001"
+    expect(getFaucetThrottleKey(42220, account)).toBe(
+      `goodDollarFaucetLastToppedUtcMs_42220_${account.toLowerCase()}`,
+    )
+    expect(getFaucetThrottleKey(122, account)).not.toBe(
+      getFaucetThrottleKey(42220, account),
+    )
+  })
+})
@@ -0,0 +1,299 @@
+import {
+  createPublicClient,
+  custom,
+  encodeErrorResult,
+  parseAbi,
+  type PublicClient,
+  type WalletClient,
+} from "viem"
+import { celo } from "viem/chains"
+import { describe, expect, it, vi } from "vitest"
+
+import {
+  SimulationRevertedError,
+  TransactionFailedError,
+  mergeTransactionOptions,
+  submitTransaction,
+} from "../src"
+
+const abi = parseAbi(["function claim()"])
+const account = "0x0000000000000000000000000000000000000001"
+const hash = `0x${"ab".repeat(32)}` as const
+const revertData = encodeErrorResult({
+  abi: parseAbi(["error Error(string)"]),
+  errorName: "Error",
+  args: ["already claimed"],
+})
+
+const createChain = ({
+  reverts = () => false,
+  status = "0x1",
+  mined = true,
+}: {
+  reverts?: (params: any[]) => boolean
+  status?: string
+  mined?: boolean
+} = {}) =>
+  createPublicClient({
+    chain: celo,
+    transport: custom(
+      {
+        request: async ({ method, params }) => {
+          switch (method) {
+            case "eth_call":
+              if (reverts(params)) {
+                throw Object.assign(new Error("execution reverted"), {
+                  code: 3,
+                  data: revertData,
+                })
+              }
+              return "0x"
+            case "eth_blockNumber":
+              return "0x10"
+            case "eth_getTransactionReceipt":
+              if (!mined) return null
+              return {
+                transactionHash: hash,
+                blockNumber: "0x10",
+                blockHash: `0x${"cd".repeat(32)}`,
+                status,
+                logs: [],
+              }
+            case "eth_getTransactionByHash":
+              if (!mined) return null
+              return {
+                hash,
+                blockNumber: "0x10",
+                from: account,
+                to: call.address,
+                nonce: "0x1",
+                value: "0x0",
+                input: "0x",
+                type: "0x0",
+              }
+            default:
+              throw new Error(`Unexpected method ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }) as PublicClient
+
+const call = {
+  address: "0x43d72Ff17701B2DA814620735C39C620Ce0ea4A1",
+  abi,
+  functionName: "claim",
+} as const
+
+const walletClient = {} as WalletClient
+
+const replacementHash = `0x${"ef".repeat(32)}` as const
+
+/** Chain where the sent transaction is dropped and another one mines under its nonce. */
+const createReplacedChain = (replacement: { to: string; input: string }) =>
+  createPublicClient({
+    chain: celo,
+    transport: custom(
+      {
+        request: async ({ method, params }) => {
+          const transaction = {
+            from: account,
+            nonce: "0x1",
+            value: "0x0",
+            type: "0x0",
+          }
+          switch (method) {
+            case "eth_call":
+              return "0x"
+            case "eth_blockNumber":
+              return "0x10"
+            case "eth_getTransactionByHash":
+              return {
+                ...transaction,
+                hash,
+                blockNumber: null,
+                to: call.address,
+                input: "0x4e71d92d",
+              }
+            case "eth_getTransactionReceipt":
+              if (params[0] !== replacementHash) return null
+              return {
+                transactionHash: replacementHash,
+                blockNumber: "0x10",
+                blockHash: `0x${"cd".repeat(32)}`,
+                status: "0x1",
+                logs: [],
+              }
+            case "eth_getBlockByNumber":
+              return {
+                number: "0x10",
+                hash: `0x${"cd".repeat(32)}`,
+                transactions: [
+                  {
+                    ...transaction,
+                    ...replacement,
+                    hash: replacementHash,
+                    blockNumber: "0x10",
+                  },
+                ],
+              }
+            default:
+              throw new Error(`Unexpected method ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }) as PublicClient
+
+describe("submitTransaction", () => {
+  it("runs the lifecycle hooks in order", async () => {
+    const publicClient = createChain()
+    const events: string[] = []
+
+    const receipt = await submitTransaction({
+      publicClient,
+      walletClient,
+      account,
+      params: call,
+      pollingIntervalMs: 10,
+      send: async () => {
+        events.push("send")
+        return hash
+      },
+      onSimulated: () => events.push("simulated"),
+      onHash: (h) => events.push(`hash:${h === hash}`),
+      onReceipt: (r) => events.push(`receipt:${r.status}`),
+    })
+
+    expect(receipt.transactionHash).toBe(hash)
+    expect(events).toEqual([
+      "simulated",
+      "send",
+      "hash:true",
+      "receipt:success",
+    ])
+  })
+
+  it("does not send calls that revert in simulation", async () => {
+    const publicClient = createChain({ reverts: () => true })
+    const send = vi.fn(async () => hash)
+
+    const error = await submitTransaction({
+      publicClient,
+      walletClient,
+      account,
+      params: call,
+      send,
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(SimulationRevertedError)
+    expect(send).not.toHaveBeenCalled()
+  })
+
+  it("decodes the revert reason of a reverted receipt", async () => {
+    // The replay pins the receipt block; the initial simulation does not.
+    const publicClient = createChain({
+      status: "0x0",
+      reverts: ([, block]) => block === "0x10",
+    })
+
+    const error = await submitTransaction({
+      publicClient,
+      walletClient,
+      account,
+      params: call,
+      pollingIntervalMs: 10,
+      send: async () => hash,
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionFailedError)
+    expect(error).toMatchObject({ hash, reason: "already claimed" })
+  })
+
+  it("fails with TRANSACTION_FAILED when no receipt arrives in time", async () => {
+    const publicClient = createChain({ mined: false })
+
+    const error = await submitTransaction({
+      publicClient,
+      walletClient,
+      account,
+      params: call,
+      pollingIntervalMs: 10,
+      timeoutMs: 50,
+      send: async () => hash,
+    }).catch((e) => e)
+
+    expect(error).toBeInstanceOf(TransactionFailedError)
+    expect(error.code).toBe("TRANSACTION_FAILED")
+  })
+
+  it("fails when a different transaction replaces the sent one", async () => {
+    const onReplaced = vi.fn()
+
+    const error = await submitTransaction({
+      publicClient: createReplacedChain({
+        to: "0x00000000000000000000000000000000000000b2",
+        input: "0x",
+      }),
+      walletClient,
+      account,
+      params: call,
+      pollingIntervalMs: 10,
+      send: async () => hash,
+      onReplaced,
+    }).catch((e) => e)
+
+    expect(onReplaced).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: "replaced" }),
+    )
+    expect(error).toBeInstanceOf(TransactionFailedError)
+    expect(error).toMatchObject({ hash })
+    expect(error.message).toContain(replacementHash)
+  })
+
+  it("returns the receipt of a repriced replacement", async () => {
+    const receipt = await submitTransaction({
+      publicClient: createReplacedChain({
+        to: call.address,
+        input: "0x4e71d92d",
+      }),
+      walletClient,
+      account,
+      params: call,
+      pollingIntervalMs: 10,
+      send: async () => hash,
+    })
+
+    expect(receipt.transactionHash).toBe(replacementHash)
+  })
+})
+
+describe("mergeTransactionOptions", () => {
+  it("lets later limits win and calls every hook", () => {
+    const first = vi.fn()
+    const second = vi.fn()
+
+    const merged = mergeTransactionOptions(
+      { confirmations: 1, timeoutMs: 1_000, onHash: first },
+      undefined,
+      { confirmations: 3, onHash: second },
+    )
+
+    expect(merged).toMatchObject({ confirmations: 3, timeoutMs: 1_000 })
+    merged.onHash?.(hash)
+    expect(first).toHaveBeenCalledWith(hash)
+    expect(second).toHaveBeenCalledWith(hash)
+  })
+
+  it("keeps earlier limits over later undefined ones", () => {
+    const merged = mergeTransactionOptions(
+      { confirmations: 2, timeoutMs: 1_000 },
+      { confirmations: undefined, timeoutMs: undefined, onHash: undefined },
+    )
+
+    expect(merged).toMatchObject({ confirmations: 2, timeoutMs: 1_000 })
+    expect(() => merged.onHash?.(hash)).not.toThrow()
+  })
+})
@@ -0,0 +1,280 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  numberToHex,
+  parseAbi,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { celo } from "viem/chains"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  SupportedChains,
+  createMemoryStorage,
+  faucetABI,
+  type AsyncStorageLike,
+} from "../src"
+import { getFaucetThrottleKey, triggerFaucet } from "../src/utils/triggerFaucet"
+
+const account = "0x00000000000000000000000000000000000000a1" as Address
+const faucetAddress = "0x00000000000000000000000000000000000000fa" as Address
+const hash = `0x${"ab".repeat(32)}` as const
+
+// Celo needs 250k gas at 25.001 gwei; a 0.01 CELO top-up with 10% minTopping
+// makes 0.009 CELO the threshold.
+const toppingAmount = 10n ** 16n
+const lowBalance = 10n ** 15n
+
+/** Public client answering the faucet reads, the top-up simulation and its receipt. */
+const createFaucetClient = ({
+  balances = [lowBalance],
+  canTop = true,
+  reverts = false,
+}: {
+  /** Balances returned by successive reads; the last one repeats. */
+  balances?: bigint[]
+  canTop?: boolean
+  reverts?: boolean
+} = {}) => {
+  let balanceReads = 0
+  return createPublicClient({
+    chain: celo,
+    transport: custom(
+      {
+        request: async ({ method, params }) => {
+          switch (method) {
+            case "eth_getBalance":
+              return numberToHex(
+                balances[Math.min(balanceReads++, balances.length - 1)],
+              )
+            case "eth_call": {
+              const { functionName } = decodeFunctionData({
+                abi: faucetABI,
+                data: params[0].data,
+              })
+              if (functionName === "topWallet") {
+                if (!reverts) return "0x"
+                throw Object.assign(new Error("execution reverted"), {
+                  code: 3,
+                  data: encodeErrorResult({
+                    abi: parseAbi(["error Error(string)"]),
+                    errorName: "Error",
+                    args: ["already topped"],
+                  }),
+                })
+              }
+              return encodeFunctionResult({
+                abi: faucetABI,
+                functionName,
+                result: {
+                  canTop,
+                  getToppingAmount: toppingAmount,
+                  minTopping: 10,
+                }[functionName],
+              } as any)
+            }
+            case "eth_estimateGas":
+              return "0x30d40"
+            case "eth_blockNumber":
+              return "0x10"
+            case "eth_getTransactionReceipt":
+              return {
+                transactionHash: hash,
+                blockNumber: "0x10",
+                blockHash: `0x${"cd".repeat(32)}`,
+                status: "0x1",
+                logs: [],
+              }
+            case "eth_getTransactionByHash":
+              return {
+                hash,
+                blockNumber: "0x10",
+                from: account,
+                to: faucetAddress,
+                nonce: "0x1",
+                value: "0x0",
+                input: "0x",
+                type: "0x0",
+              }
+            default:
+              throw new Error(`Unexpected method ${method}`)
+          }
+        },
+      },
+      { retryCount: 0 },
+    ),
+  }) as PublicClient
+}
+
+const walletClient = createWalletClient({
+  chain: celo,
+  account,
+  transport: custom({
+    request: async ({ method }) => {
+      throw new Error(`Unexpected wallet method ${method}`)
+    },
+  }),
+})
+
+const createAsyncStorage = (): AsyncStorageLike => {
+  const values = new Map<string, string>()
+  return {
+    getItem: async (key) => values.get(key) ?? null,
+    setItem: async (key, value) => void values.set(key, value),
+    removeItem: async (key) => void values.delete(key),
+  }
+}
+
+const run = (
+  publicClient: PublicClient,
+  options: Partial<Parameters<typeof triggerFaucet>[0]> = {},
+) =>
+  triggerFaucet({
+    chainId: SupportedChains.CELO,
+    account,
+    publicClient,
+    walletClient,
+    faucetAddress,
+    env: "development",
+    storage: createMemoryStorage(),
+    send: async () => hash,
+    transactionOptions: { pollingIntervalMs: 10 },
+    ...options,
+  })
+
+describe("triggerFaucet", () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }))
+    vi.stubGlobal("fetch", fetchMock)
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    fetchMock.mockReset()
+  })
+
+  it("tops up through the contract and reports the balances and gas", async () => {
+    const outcome = await run(
+      createFaucetClient({ balances: [lowBalance, lowBalance, toppingAmount] }),
+    )
+
+    expect(outcome).toEqual({
+      result: "topped_via_contract",
+      path: "contract",
+      txHash: hash,
+      balanceBefore: lowBalance,
+      balanceAfter: toppingAmount,
+      gasEstimate: 200_000n,
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it("skips wallets with enough balance or that the faucet cannot top", async () => {
+    await expect(
+      run(createFaucetClient({ balances: [toppingAmount] })),
+    ).resolves.toEqual({
+      result: "skipped",
+      skipReason: "balance_sufficient",
+      balanceBefore: toppingAmount,
+    })
+
+    await expect(run(createFaucetClient({ canTop: false }))).resolves.toEqual({
+      result: "skipped",
+      skipReason: "cannot_top",
+      balanceBefore: lowBalance,
+    })
+  })
+
+  it("throttles per account and chain through async storage", async () => {
+    const storage = createAsyncStorage()
+    const publicClient = createFaucetClient()
+
+    await expect(run(publicClient, { storage })).resolves.toMatchObject({
+      result: "topped_via_contract",
+    })
+    expect(
+      await storage.getItem(
+        getFaucetThrottleKey(SupportedChains.CELO, account),
+      ),
+    ).not.toBeNull()
+
+    await expect(run(publicClient, { storage })).resolves.toEqual({
+      result: "skipped",
+      skipReason: "throttled",
+    })
+    // Another chain, or another account, has its own throttle.
+    await expect(
+      run(publicClient, { storage, chainId: SupportedChains.FUSE }),
+    ).resolves.not.toMatchObject({ skipReason: "throttled" })
+    await expect(
+      run(publicClient, {
+        storage,
+        account: "0x00000000000000000000000000000000000000b2",
+      }),
+    ).resolves.not.toMatchObject({ skipReason: "throttled" })
+  })
+
+  it("tops up again once throttleMs has passed", async () => {
+    const storage = createMemoryStorage()
+    storage.setItem(
+      getFaucetThrottleKey(SupportedChains.CELO, account),
+      String(Date.now() - 2_000),
+    )
+
+    await expect(
+      run(createFaucetClient(), { storage, throttleMs: 1_000 }),
+    ).resolves.toMatchObject({ result: "topped_via_contract" })
+  })
+
+  it("falls back to the API when the contract path fails", async () => {
+    const outcome = await run(createFaucetClient({ reverts: true }))
+
+    expect(outcome).toMatchObject({
+      result: "topped_via_api",
+      path: "api",
+      balanceBefore: lowBalance,
+      gasEstimate: 200_000n,
+      contractError: {
+        code: "SIMULATION_REVERTED",
+        reason: "already topped",
+      },
+    })
+    expect(outcome.txHash).toBeUndefined()
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://good-server.herokuapp.com/verify/topWallet",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ chainId: SupportedChains.CELO, account }),
+      }),
+    )
+  })
+
+  it("reports an error when the API fallback fails too", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }))
+    const storage = createMemoryStorage()
+
+    const outcome = await run(createFaucetClient({ reverts: true }), {
+      storage,
+    })
+
+    expect(outcome).toMatchObject({
+      result: "error",
+      path: "api",
+      contractError: { code: "SIMULATION_REVERTED" },
+      error: { code: "SERVER_ERROR", status: 503 },
+    })
+    // Failed attempts are not throttled.
+    expect(
+      storage.getItem(getFaucetThrottleKey(SupportedChains.CELO, account)),
+    ).toBeNull()
+  })
+})
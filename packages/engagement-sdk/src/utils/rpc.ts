@@ -1,6 +1,5 @@
 export const DEFAULT_EVENT_BATCH_SIZE = 10_000n
 export const DEFAULT_EVENT_LOOKBACK = 60n * 60n * 24n * 30n
-export const WAIT_DELAY = 5000 // 1 second delay
 export const LOG_BATCH_CONCURRENCY_LIMIT = 3
 
 export interface BlockRange {
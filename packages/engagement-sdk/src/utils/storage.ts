@@ -1,8 +1,4 @@
-export interface StorageLike {
-  getItem(key: string): string | null
-  setItem(key: string, value: string): void
-  removeItem(key: string): void
-}
+import type { StorageLike } from "@goodsdks/citizen-sdk"
 
 export type StorageLogger = (
   message: string,
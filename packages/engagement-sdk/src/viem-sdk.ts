@@ -4,7 +4,12 @@ import {
   WalletClient,
   type SimulateContractParameters,
 } from "viem"
-import { waitForTransactionReceipt } from "viem/actions"
+import {
+  mergeTransactionOptions,
+  submitTransaction,
+  type StorageLike,
+  type TransactionOptions,
+} from "@goodsdks/citizen-sdk"
 import devdeployments from "@goodsdks/engagement-contracts/ignition/deployments/development-celo/deployed_addresses.json"
 import prod from "@goodsdks/engagement-contracts/ignition/deployments/production-celo/deployed_addresses.json"
 import {
@@ -20,23 +25,23 @@ export const REWARDS_CONTRACT = prod?.[
 import {
   DEFAULT_EVENT_BATCH_SIZE,
   DEFAULT_EVENT_LOOKBACK,
-  WAIT_DELAY,
   fetchInBlockBatches,
   promisePool,
 } from "./utils/rpc"
 import {
-  type StorageLike,
   type StorageLogger,
   readProgressBlock,
   writeProgressBlock,
   clearStorageKey,
 } from "./utils/storage"
-export type { StorageLike } from "./utils/storage"
+export type { StorageLike } from "@goodsdks/citizen-sdk"
 
 export const EVENT_CACHE_PREFIX = "goodsdks:engagement-rewards"
 
 export interface EngagementRewardsSDKOptions {
   cacheStorage?: StorageLike
+  /** Confirmations, timeout and lifecycle hooks applied to every transaction. */
+  transactions?: TransactionOptions
 }
 
 export interface AppInfo {
@@ -106,6 +111,7 @@ export class EngagementRewardsSDK {
   private walletClient: WalletClient
   private contractAddress: Address
   private cacheStorage?: StorageLike
+  private transactionOptions?: TransactionOptions
   private debug: boolean = false
   private storageLogger: StorageLogger
 
@@ -119,6 +125,7 @@ export class EngagementRewardsSDK {
     this.walletClient = walletClient
     this.contractAddress = contractAddress
     this.cacheStorage = options?.cacheStorage
+    this.transactionOptions = options?.transactions
     this.debug = options?.debug ?? false
     this.storageLogger = (message, context) => {
       this.logDebug(message, context)
@@ -189,19 +196,12 @@ export class EngagementRewardsSDK {
     onHash?: (hash: `0x${string}`) => void,
   ) {
     const [account] = await this.walletClient.getAddresses()
-    const { request } = await this.publicClient.simulateContract({
+    return submitTransaction({
+      publicClient: this.publicClient,
+      walletClient: this.walletClient,
       account,
-      ...simulateParams,
-    })
-
-    const hash = await this.walletClient.writeContract(request)
-    if (onHash) onHash(hash)
-
-    // Add delay before waiting for receipt
-    await new Promise((resolve) => setTimeout(resolve, WAIT_DELAY))
-
-    return waitForTransactionReceipt(this.publicClient, {
-      hash,
+      params: simulateParams,
+      ...mergeTransactionOptions(this.transactionOptions, { onHash }),
     })
   }
 
@@ -1,2 +1,3 @@
 export * from "./wagmi-claim-sdk"
 export * from "./wagmi-identity-sdk"
+export * from "./wagmi-delete-face-record"
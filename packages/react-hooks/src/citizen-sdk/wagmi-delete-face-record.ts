@@ -0,0 +1,52 @@
+import { useState, useCallback } from "react"
+
+import {
+  contractEnv,
+  type FaceRecordDeletionResult,
+} from "@goodsdks/citizen-sdk"
+import { useIdentitySDK } from "./wagmi-identity-sdk"
+
+export type DeleteFaceRecordStatus =
+  "idle" | "deleting" | FaceRecordDeletionResult["status"]
+
+export const useDeleteFaceRecord = (
+  env: contractEnv = "production",
+): {
+  deleteFaceRecord: () => Promise<FaceRecordDeletionResult | null>
+  status: DeleteFaceRecordStatus
+  loading: boolean
+  error: string | null
+} => {
+  const { sdk, loading: sdkLoading, error: sdkError } = useIdentitySDK(env)
+
+  const [status, setStatus] = useState<DeleteFaceRecordStatus>("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const deleteFaceRecord = useCallback(async () => {
+    if (!sdk) {
+      setError(sdkError ?? "Identity SDK not initialized")
+      return null
+    }
+
+    setError(null)
+    setStatus("deleting")
+
+    try {
+      const result = await sdk.deleteFaceRecord()
+      setStatus(result.status)
+      if (result.status === "failed") setError(result.error)
+      return result
+    } catch (err: any) {
+      setStatus("failed")
+      setError(err instanceof Error ? err.message : String(err))
+      return null
+    }
+  }, [sdk, sdkError])
+
+  return {
+    deleteFaceRecord,
+    status,
+    loading: sdkLoading || status === "deleting",
+    error: error ?? sdkError,
+  }
+}
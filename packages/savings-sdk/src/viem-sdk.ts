@@ -5,6 +5,11 @@ import {
   formatEther,
   type SimulateContractParameters,
 } from "viem"
+import {
+  mergeTransactionOptions,
+  submitTransaction,
+  type TransactionOptions,
+} from "@goodsdks/citizen-sdk"
 
 const STAKING_CONTRACT_ABI = parseAbi([
   "function balanceOf(address account) view returns (uint256)",
@@ -40,6 +45,11 @@ const gdollarContract = {
   abi: G$__ABI,
 } as const
 
+export interface GooddollarSavingsSDKOptions {
+  /** Confirmations, timeout and lifecycle hooks applied to every transaction. */
+  transactions?: TransactionOptions
+}
+
 export interface GlobalStats {
   totalStaked: bigint // in GDollars wei
   annualAPR: number // in percentage
@@ -57,16 +67,19 @@ export class GooddollarSavingsSDK {
   private walletClient: WalletClient | null = null
   private totalStaked: bigint = BigInt(0)
   private cachedRewardRate: bigint = BigInt(0)
+  private readonly transactionOptions?: TransactionOptions
 
   constructor(
     publicClient: PublicClient,
     walletClient?: WalletClient,
+    options?: GooddollarSavingsSDKOptions,
   ) {
     if (!publicClient) throw new Error("Public client is required")
     if (!(publicClient.chain?.id === 42220)) {
       throw new Error("Public client must be connected to Celo mainnet")
     }
     this.publicClient = publicClient
+    this.transactionOptions = options?.transactions
     this.walletClient = null
     if (walletClient) {
       this.setWalletClient(walletClient)
@@ -211,17 +224,13 @@ export class GooddollarSavingsSDK {
 
     const account = await this.getAccount()
 
-    const { request } = await this.publicClient.simulateContract({
+    return submitTransaction({
+      publicClient: this.publicClient,
+      walletClient: this.walletClient,
       account,
-      ...simulateParams,
+      params: simulateParams,
+      ...mergeTransactionOptions(this.transactionOptions, { onHash }),
     })
-
-    const hash = await this.walletClient.writeContract(request)
-    if (onHash) onHash(hash)
-
-    const receipt = await this.publicClient.waitForTransactionReceipt({ hash })
-
-    return receipt
   }
 
   /**
@@ -11,14 +11,19 @@ import {
   custom,
   formatUnits,
 } from "viem"
-import { celo, fuse, xdc, type Chain } from "viem/chains"
+import type { Chain } from "viem/chains"
 
 import {
   ClaimSDK,
   CHAIN_DECIMALS,
   FALLBACK_CHAIN_PRIORITY,
   chainConfigs,
+  createReadCache,
+  getViemChain,
   IdentitySDK,
+  isGoodSDKError,
+  type ClaimProgressEvent,
+  type ClaimStep,
   isSupportedChain,
 } from "@goodsdks/citizen-sdk"
 import {
@@ -29,16 +34,14 @@ import {
   type ContractEnv,
 } from "./constants"
 
-const APPKIT_NETWORKS_BY_ID: Record<SupportedChains, AppKitNetwork> = {
-  [SupportedChains.CELO]: celo as AppKitNetwork,
-  [SupportedChains.FUSE]: fuse as AppKitNetwork,
-  [SupportedChains.XDC]: xdc as AppKitNetwork,
-}
-
-const VIEM_CHAINS: Record<SupportedChains, Chain> = {
-  [SupportedChains.CELO]: celo,
-  [SupportedChains.FUSE]: fuse,
-  [SupportedChains.XDC]: xdc,
+const CLAIM_STEP_LABELS: Record<ClaimStep, string> = {
+  switching_chain: "Please approve the network switch in your wallet.",
+  whitelist: "Checking your identity...",
+  entitlement: "Checking your entitlement...",
+  faucet: "Checking your gas balance...",
+  simulating: "Please confirm the claim in your wallet.",
+  submitted: "Waiting for the transaction to be confirmed...",
+  confirmed: "Claim confirmed.",
 }
 
 @customElement("claim-button")
@@ -64,6 +67,7 @@ export class ClaimButton extends LitElement {
   @state() private decimals: number | null = null
   @state() private claimOnAlt: boolean = false
   @state() private suggestedChain: SupportedChains | null = null
+  @state() private claimStep: ClaimStep | null = null
   @state() private claimState:
     | "idle"
     | "claiming"
@@ -81,6 +85,8 @@ export class ClaimButton extends LitElement {
   private appKit: AppKit | null = null
   private publicClient: PublicClient | null = null
   private walletClient: WalletClient | null = null
+  // One render reads the whitelisted root and entitlement several times.
+  private readCache = createReadCache()
   private claimSdk: ClaimSDK | null = null
   private getSupportedChainIds(): SupportedChains[] {
     const uniqueIds = new Set(
@@ -92,20 +98,21 @@ export class ClaimButton extends LitElement {
     )
   }
 
+  // Resolved through the citizen-sdk registry, so chains added with registerChain work too.
   private getViemChain(chainId: SupportedChains): Chain {
-    return VIEM_CHAINS[chainId]
+    return getViemChain(chainId)
   }
 
   private getAppKitNetworks(): [AppKitNetwork, ...AppKitNetwork[]] {
-    const configured = this.getSupportedChainIds()
-      .map((chainId) => APPKIT_NETWORKS_BY_ID[chainId])
-      .filter((network): network is AppKitNetwork => Boolean(network))
+    const configured = this.getSupportedChainIds().map(
+      (chainId) => this.getViemChain(chainId) as AppKitNetwork,
+    )
 
     const networks = configured.length
       ? configured
       : DEFAULT_SUPPORTED_CHAINS.map(
-          (chainId) => APPKIT_NETWORKS_BY_ID[chainId],
-        ).filter((network): network is AppKitNetwork => Boolean(network))
+          (chainId) => this.getViemChain(chainId) as AppKitNetwork,
+        )
 
     if (!networks.length) {
       throw new Error("No supported networks configured for AppKit")
@@ -381,6 +388,7 @@ export class ClaimButton extends LitElement {
         publicClient: this.publicClient,
         walletClient: this.walletClient,
         env: this.environment,
+        cache: this.readCache,
       })
 
       const sdk = await ClaimSDK.init({
@@ -408,7 +416,7 @@ export class ClaimButton extends LitElement {
       this.claimAmount = formatUnits(amount, decimals)
 
       if (amount === 0n) {
-        const nextTime = await sdk.nextClaimTime()
+        const nextTime = await sdk.nextClaimTime(amount)
         this.startCountdownTimer(nextTime)
         this.claimOnAlt = altClaimAvailable
         this.suggestedChain = altClaimAvailable ? altChainId : null
@@ -424,6 +432,14 @@ export class ClaimButton extends LitElement {
   }
 
   async handleClaim() {
+    await this.runClaim()
+  }
+
+  async handleClaimOnChain(targetChainId: SupportedChains) {
+    await this.runClaim(targetChainId)
+  }
+
+  private async runClaim(targetChainId?: SupportedChains) {
     if (!this.walletAddress) {
       this.error = "Wallet is not connected."
       return
@@ -432,25 +448,55 @@ export class ClaimButton extends LitElement {
     this.claimState = "claiming"
     this.error = null
     this.txHash = null
+    this.claimStep = null
 
     try {
       if (!this.claimSdk) {
         throw new Error("ClaimSDK is not initialized.")
       }
 
-      const tx = await this.claimSdk.claim()
+      const claimOptions = {
+        onStep: ({ step, hash }: ClaimProgressEvent) => {
+          this.claimStep = step
+          if (hash) this.txHash = hash
+        },
+      }
+
+      // claimOnChain switches the wallet first, so the clients are rebuilt afterwards.
+      const tx = targetChainId
+        ? (
+            await this.claimSdk.claimOnChain(
+              targetChainId,
+              undefined,
+              claimOptions,
+            )
+          ).receipt
+        : await this.claimSdk.claim(undefined, claimOptions)
 
       if (tx) {
         this.txHash = tx.transactionHash
         this.claimState = "success"
         setTimeout(() => {
+          if (targetChainId) {
+            this.initializeClients()
+            return
+          }
           this.claimState = "timer"
           this.fetchEntitlement(this.claimSdk!)
         }, 5000)
       }
     } catch (err: any) {
-      this.error = err.message || "An unexpected error occurred."
       this.claimState = "idle"
+
+      // Someone already claimed for this identity: show the countdown instead of an error.
+      if (isGoodSDKError(err, "ALREADY_CLAIMED") && this.claimSdk) {
+        this.fetchEntitlement(this.claimSdk)
+        return
+      }
+
+      this.error = isGoodSDKError(err, "USER_REJECTED")
+        ? "Transaction was rejected in your wallet."
+        : err.message || "An unexpected error occurred."
     }
   }
 
@@ -745,7 +791,11 @@ export class ClaimButton extends LitElement {
               ${this.claimState === "claiming"
                 ? html` <div class="state-claiming">
                     <h2>Claiming...</h2>
-                    <p>Please wait while we process your claim.</p>
+                    <p>
+                      ${this.claimStep
+                        ? CLAIM_STEP_LABELS[this.claimStep]
+                        : "Please wait while we process your claim."}
+                    </p>
                     <div class="loader"></div>
                   </div>`
                 : this.claimState === "success"
@@ -764,11 +814,11 @@ export class ClaimButton extends LitElement {
                           ? html`<p
                               class="chain-suggestion"
                               @click="${() =>
-                                this.switchChain(
-                                  this.suggestedChain ?? undefined,
-                                )}"
+                                this.suggestedChain
+                                  ? this.handleClaimOnChain(this.suggestedChain)
+                                  : this.switchChain()}"
                             >
-                              Switch to ${suggestionLabel} to claim more G$
+                              Claim more G$ on ${suggestionLabel}
                             </p>`
                           : null}
                       </div>`